@@ -0,0 +1,117 @@
+import { useQuery } from "@tanstack/react-query";
+import { ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { type BrokenImageReport } from "@shared/schema";
+
+interface BrokenImagesTableProps {
+  jobId: string;
+  refreshTrigger: number;
+}
+
+export default function BrokenImagesTable({ jobId, refreshTrigger }: BrokenImagesTableProps) {
+  const { data: report, isLoading } = useQuery<BrokenImageReport>({
+    queryKey: ['/api/crawl', jobId, 'broken-images', refreshTrigger],
+    queryFn: async () => {
+      const response = await fetch(`/api/crawl/${jobId}/broken-images`);
+      if (!response.ok) throw new Error('Failed to fetch broken images');
+      return response.json();
+    },
+  });
+
+  const brokenImages = report?.brokenImages ?? [];
+
+  const emptyMessage = isLoading
+    ? 'Loading broken images...'
+    : report && !report.probed
+      ? 'This crawl ran without "Probe Images", so image status is unknown'
+      : 'No broken images found';
+
+  return (
+    <div className="overflow-hidden">
+      <div className="max-h-96 overflow-y-auto custom-scrollbar">
+        <Table>
+          <TableHeader className="bg-card/50 sticky top-0 z-10">
+            <TableRow className="border-border/20">
+              <TableHead className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider bg-card/50 rounded-tl-xl">
+                Broken Image
+              </TableHead>
+              <TableHead className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider bg-card/50">
+                Failure
+              </TableHead>
+              <TableHead className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider bg-card/50 rounded-tr-xl">
+                Referenced From
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody className="bg-card divide-y divide-border/20">
+            {brokenImages.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={3}
+                  className="px-6 py-12 text-center text-muted-foreground"
+                  data-testid="text-no-broken-images"
+                >
+                  {emptyMessage}
+                </TableCell>
+              </TableRow>
+            ) : (
+              brokenImages.map((image) => (
+                <TableRow
+                  key={image.imageUrl}
+                  className="hover:bg-card/80 transition-colors border-border/20 align-top"
+                  data-testid={`row-broken-image-${image.references[0].imageId}`}
+                >
+                  <TableCell className="px-6 py-4">
+                    <div className="text-sm text-foreground break-all max-w-xs">
+                      <a
+                        href={image.imageUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="hover:text-primary hover:underline transition-colors"
+                      >
+                        {image.imageUrl}
+                        <ExternalLink className="inline ml-2" size={14} />
+                      </a>
+                    </div>
+                    {image.finalUrl && image.finalUrl !== image.imageUrl && (
+                      <div className="text-xs text-muted-foreground break-all max-w-xs mt-1">
+                        Redirects to {image.finalUrl}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="px-6 py-4 whitespace-nowrap">
+                    <Badge className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-destructive/20 text-destructive border border-destructive/30">
+                      {image.reason}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="px-6 py-4">
+                    <div className="space-y-3">
+                      {image.references.map((reference) => (
+                        <div key={reference.imageId} className="text-sm">
+                          <a
+                            href={reference.pageUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-foreground break-all hover:text-primary hover:underline transition-colors"
+                          >
+                            {reference.pageUrl}
+                          </a>
+                          {reference.imgTagHtml && (
+                            <code className="block mt-1 text-xs text-muted-foreground break-all bg-muted/50 rounded-lg p-2">
+                              {reference.imgTagHtml.slice(0, 300)}
+                            </code>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,14 @@
 import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Pause, Play, Square } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { type CrawlProgress } from "@/lib/types";
+import { type CrawlJob } from "@shared/schema";
 
 interface CrawlStatusProps {
   crawlId: string | null;
@@ -10,6 +16,7 @@ interface CrawlStatusProps {
 }
 
 export default function CrawlStatus({ crawlId, onCrawlComplete }: CrawlStatusProps) {
+  const { toast } = useToast();
   const [progress, setProgress] = useState<CrawlProgress>({
     status: 'idle',
     progress: 0,
@@ -40,7 +47,7 @@ export default function CrawlStatus({ crawlId, onCrawlComplete }: CrawlStatusPro
       const data = JSON.parse(event.data);
       setProgress(prev => ({ ...prev, ...data }));
       
-      if (data.status === 'completed' || data.status === 'failed') {
+      if (data.status === 'completed' || data.status === 'failed' || data.status === 'cancelled') {
         eventSource.close();
         onCrawlComplete();
       }
@@ -55,11 +62,32 @@ export default function CrawlStatus({ crawlId, onCrawlComplete }: CrawlStatusPro
     };
   }, [crawlId, onCrawlComplete]);
 
+  const controlMutation = useMutation({
+    mutationFn: async (action: 'cancel' | 'pause' | 'resume') => {
+      const response = await apiRequest('POST', `/api/crawl/${crawlId}/${action}`);
+      return response.json() as Promise<CrawlJob>;
+    },
+    onSuccess: (job) => {
+      setProgress(prev => ({ ...prev, status: job.status }));
+      if (job.status === 'cancelled') {
+        onCrawlComplete();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'running': return 'bg-blue-100 text-blue-800';
       case 'completed': return 'bg-green-100 text-green-800';
       case 'failed': return 'bg-red-100 text-red-800';
+      case 'paused': return 'bg-yellow-100 text-yellow-800';
       default: return 'bg-gray-100 text-gray-600';
     }
   };
@@ -69,11 +97,17 @@ export default function CrawlStatus({ crawlId, onCrawlComplete }: CrawlStatusPro
       case 'running': return 'Running';
       case 'completed': return 'Completed';
       case 'failed': return 'Failed';
-      case 'pending': return 'Pending';
+      case 'pending': return 'Queued';
+      case 'paused': return 'Paused';
+      case 'cancelled': return 'Cancelled';
       default: return 'Idle';
     }
   };
 
+  const canPause = progress.status === 'running' || progress.status === 'pending';
+  const canResume = progress.status === 'paused';
+  const canCancel = canPause || canResume;
+
   return (
     <Card className="modern-card border-0 shadow-2xl">
       <CardContent className="p-6">
@@ -88,6 +122,49 @@ export default function CrawlStatus({ crawlId, onCrawlComplete }: CrawlStatusPro
         </div>
         
         <div className="space-y-4">
+          {/* Job Controls */}
+          {crawlId && canCancel && (
+            <div className="flex space-x-2">
+              {canPause && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => controlMutation.mutate('pause')}
+                  disabled={controlMutation.isPending}
+                  className="modern-input text-sm font-medium text-foreground bg-card hover:bg-card/80 border-border"
+                  data-testid="button-pause-crawl"
+                >
+                  <Pause className="mr-2" size={14} />
+                  Pause
+                </Button>
+              )}
+              {canResume && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => controlMutation.mutate('resume')}
+                  disabled={controlMutation.isPending}
+                  className="modern-input text-sm font-medium text-foreground bg-card hover:bg-card/80 border-border"
+                  data-testid="button-resume-crawl"
+                >
+                  <Play className="mr-2" size={14} />
+                  Resume
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => controlMutation.mutate('cancel')}
+                disabled={controlMutation.isPending}
+                className="modern-input text-sm font-medium text-destructive bg-card hover:bg-destructive/10 border-border"
+                data-testid="button-cancel-crawl"
+              >
+                <Square className="mr-2" size={14} />
+                Cancel
+              </Button>
+            </div>
+          )}
+
           {/* Progress Bar */}
           <div>
             <div className="flex justify-between text-sm text-muted-foreground mb-3">
@@ -102,6 +179,16 @@ export default function CrawlStatus({ crawlId, onCrawlComplete }: CrawlStatusPro
               className="w-full bg-card h-3 rounded-full modern-progress"
               data-testid="progress-bar"
             />
+            {!!progress.duplicatesCollapsed && (
+              <p className="text-xs text-muted-foreground mt-2" data-testid="text-duplicates-collapsed">
+                {progress.duplicatesCollapsed} duplicate URLs skipped
+              </p>
+            )}
+            {!!progress.failedPages && (
+              <p className="text-xs text-destructive mt-2" data-testid="text-failed-pages">
+                {progress.failedPages} pages failed
+              </p>
+            )}
           </div>
 
           {/* Current Page */}
@@ -0,0 +1,152 @@
+import { useQuery } from "@tanstack/react-query";
+import { ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { type CrawledPage, type PageOutcome } from "@shared/schema";
+
+interface CrawledPagesTableProps {
+  jobId: string;
+  refreshTrigger: number;
+}
+
+const OUTCOME_STYLES: Record<PageOutcome, string> = {
+  crawled: "bg-success/20 text-success border border-success/30",
+  failed: "bg-destructive/20 text-destructive border border-destructive/30",
+  blocked: "bg-warning/20 text-warning border border-warning/30",
+  duplicate: "bg-muted text-muted-foreground border border-border",
+};
+
+const formatMs = (ms: number | null) => (ms === null ? "—" : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const formatBytes = (bytes: number | null) => {
+  if (bytes === null) return "—";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function CrawledPagesTable({ jobId, refreshTrigger }: CrawledPagesTableProps) {
+  const { data: pages = [], isLoading } = useQuery<CrawledPage[]>({
+    queryKey: ['/api/crawl', jobId, 'pages', refreshTrigger],
+    queryFn: async () => {
+      const response = await fetch(`/api/crawl/${jobId}/pages`);
+      if (!response.ok) throw new Error('Failed to fetch crawled pages');
+      return response.json();
+    },
+  });
+
+  return (
+    <div className="overflow-hidden">
+      <div className="max-h-96 overflow-y-auto custom-scrollbar">
+        <Table>
+          <TableHeader className="bg-card/50 sticky top-0 z-10">
+            <TableRow className="border-border/20">
+              <TableHead className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider bg-card/50 rounded-tl-xl">
+                Page
+              </TableHead>
+              <TableHead className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider bg-card/50">
+                Status
+              </TableHead>
+              <TableHead className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider bg-card/50">
+                TTFB / Total
+              </TableHead>
+              <TableHead className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider bg-card/50">
+                Size
+              </TableHead>
+              <TableHead className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider bg-card/50 rounded-tr-xl">
+                Depth / Retries
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody className="bg-card divide-y divide-border/20">
+            {pages.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className="px-6 py-12 text-center text-muted-foreground"
+                  data-testid="text-no-crawled-pages"
+                >
+                  {isLoading ? 'Loading pages...' : 'No pages crawled yet'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              pages.map((page) => (
+                <TableRow
+                  key={page.id}
+                  className="hover:bg-card/80 transition-colors border-border/20 align-top"
+                  data-testid={`row-crawled-page-${page.id}`}
+                >
+                  <TableCell className="px-6 py-4">
+                    <div className="text-sm text-foreground break-all max-w-md">
+                      <a
+                        href={page.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="hover:text-primary hover:underline transition-colors"
+                      >
+                        {page.url}
+                        <ExternalLink className="inline ml-2" size={14} />
+                      </a>
+                    </div>
+                    {page.finalUrl && page.finalUrl !== page.url && (
+                      <div className="text-xs text-muted-foreground break-all max-w-md mt-1">
+                        Redirects to {page.finalUrl}
+                        {page.redirectChain.length > 1 && ` (${page.redirectChain.length} hops)`}
+                      </div>
+                    )}
+                    {page.referrer && (
+                      <div className="text-xs text-muted-foreground break-all max-w-md mt-1">
+                        Linked from {page.referrer}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="px-6 py-4">
+                    <div className="flex items-center gap-2 whitespace-nowrap">
+                      <Badge className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold ${OUTCOME_STYLES[page.outcome]}`}>
+                        {page.outcome}
+                      </Badge>
+                      {page.httpStatus !== null && (
+                        <span className="text-sm text-muted-foreground">{page.httpStatus}</span>
+                      )}
+                    </div>
+                    {page.error && (
+                      <div className="text-xs text-destructive break-all max-w-xs mt-1">{page.error}</div>
+                    )}
+                    {page.comparisonError && (
+                      <div className="text-xs text-warning break-all max-w-xs mt-1">
+                        Compare device: {page.comparisonError}
+                      </div>
+                    )}
+                    {page.attempts.length > 1 && (
+                      <ol className="text-xs text-muted-foreground max-w-xs mt-1 space-y-0.5">
+                        {page.attempts.map((attempt) => (
+                          <li key={attempt.attempt} className="break-all">
+                            #{attempt.attempt}: {attempt.error ?? "OK"} in {formatMs(attempt.duration)}
+                            {attempt.retryDelay !== null && `, retried after ${formatMs(attempt.retryDelay)}`}
+                            {attempt.retryable === false && " (permanent)"}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </TableCell>
+                  <TableCell className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                    {formatMs(page.ttfb)} / {formatMs(page.totalTime)}
+                  </TableCell>
+                  <TableCell className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-foreground">{formatBytes(page.byteSize)}</div>
+                    {page.contentType && (
+                      <div className="text-xs text-muted-foreground">{page.contentType}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                    {page.depth} / {page.retryCount}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -6,19 +6,122 @@ import { z } from "zod";
 import { Rocket, Play, Globe } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { type CrawlFormData } from "@/lib/types";
+import { type CrawlFormData, type LoginFlowFormData } from "@/lib/types";
+import { CRAWL_SCOPES, DEFAULT_LAZY_LOAD_ATTRIBUTES, DEVICE_PROFILE_NAMES, DEVICE_PROFILES, DEFAULT_URL_NORMALIZATION, HEADER_NAME_REGEX, HOSTNAME_REGEX, MAX_FETCH_ATTEMPTS, MAX_PAGE_CONCURRENCY, MAX_REDIRECTS, SITEMAP_MODES, urlNormalizationSchema } from "@shared/schema";
+import { parseCookieFile } from "@shared/cookies";
+import { isValidUrlPattern } from "@shared/url-patterns";
+
+const splitHosts = (value: string) => value.split(/[\s,]+/).map((host) => host.trim().toLowerCase()).filter(Boolean);
+
+const splitPatterns = (value: string) => value.split("\n").map((pattern) => pattern.trim()).filter(Boolean);
+
+const patternsSchema = z.string().refine(
+  (value) => splitPatterns(value).every(isValidUrlPattern),
+  "Contains an invalid pattern",
+);
+
+// Blank for no limit, otherwise a whole number
+const optionalLimitSchema = z.string().trim().regex(/^\d*$/, "Must be a whole number or blank");
+
+const parseLimit = (value: string) => (value.trim() === "" ? null : parseInt(value, 10));
+
+const splitHeaderLines = (value: string) =>
+  value.split("\n").map((line) => line.trim()).filter(Boolean).map((line) => {
+    const separator = line.indexOf(":");
+    return [line.slice(0, separator).trim(), line.slice(separator + 1).trim()];
+  });
+
+// A line without a colon would otherwise be split into a clipped name and the whole line as its value
+const headersSchema = z.string().superRefine((value, ctx) => {
+  const lines = value.split("\n").map((line) => line.trim()).filter(Boolean);
+  const invalid = lines.find((line) => !line.includes(":") || !HEADER_NAME_REGEX.test(line.slice(0, line.indexOf(":")).trim()));
+  if (invalid) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${invalid}" is not a "Name: value" header; use one per line` });
+  }
+});
+
+const cookiesSchema = z.string().superRefine((value, ctx) => {
+  try {
+    parseCookieFile(value);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : "Unreadable cookie file" });
+  }
+});
+
+const LOGIN_SELECTOR_FIELDS = ["usernameSelector", "passwordSelector", "submitSelector"] as const;
+
+// Every field may stay blank; once a login URL is set, the selectors are required
+const loginFlowFormSchema = z.object({
+  url: z.string(),
+  usernameSelector: z.string(),
+  passwordSelector: z.string(),
+  submitSelector: z.string(),
+  username: z.string(),
+  password: z.string(),
+  successSelector: z.string(),
+}).superRefine((flow, ctx) => {
+  if (!flow.url.trim()) return;
+  if (!z.string().url().safeParse(flow.url.trim()).success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["url"], message: "Please enter a valid URL" });
+  }
+  for (const field of LOGIN_SELECTOR_FIELDS) {
+    if (!flow[field].trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: "Required for a login" });
+    }
+  }
+});
+
+const toLoginFlow = (flow: LoginFlowFormData) => ({
+  url: flow.url.trim(),
+  usernameSelector: flow.usernameSelector.trim(),
+  passwordSelector: flow.passwordSelector.trim(),
+  submitSelector: flow.submitSelector.trim(),
+  username: flow.username,
+  password: flow.password,
+  successSelector: flow.successSelector.trim() || null,
+});
 
 const formSchema = z.object({
   targetUrl: z.string().url("Please enter a valid URL"),
   maxPages: z.number().min(1, "Must be at least 1").max(1000, "Cannot exceed 1000"),
   timeout: z.number().min(2, "Must be at least 2 seconds").max(60, "Cannot exceed 60 seconds"),
   includeCssBackgrounds: z.boolean(),
+  lazyLoadAttributes: z.string(),
+  probeImages: z.boolean(),
+  concurrency: z.number().min(1, "Must be at least 1").max(MAX_PAGE_CONCURRENCY, `Cannot exceed ${MAX_PAGE_CONCURRENCY}`),
+  respectRobotsTxt: z.boolean(),
+  requestsPerSecond: z.number().min(0, "Cannot be negative").max(100, "Cannot exceed 100"),
+  honorRetryAfter: z.boolean(),
+  maxAttempts: z.number().int().min(1, "Must be at least 1").max(MAX_FETCH_ATTEMPTS, `Cannot exceed ${MAX_FETCH_ATTEMPTS}`),
+  maxRedirectHops: z.number().int().min(0, "Cannot be negative").max(MAX_REDIRECTS, `Cannot exceed ${MAX_REDIRECTS}`),
+  renderJavaScript: z.boolean(),
+  autoScroll: z.boolean(),
+  deviceProfile: z.enum(DEVICE_PROFILE_NAMES),
+  compareProfile: z.enum([...DEVICE_PROFILE_NAMES, "none"]),
+  sitemapMode: z.enum(SITEMAP_MODES),
+  scope: z.enum(CRAWL_SCOPES),
+  allowedHosts: z.string().refine(
+    (value) => splitHosts(value).every((host) => HOSTNAME_REGEX.test(host)),
+    "Enter host names only, like shop.example.com",
+  ),
+  includePatterns: patternsSchema,
+  excludePatterns: patternsSchema,
+  maxDepth: optionalLimitSchema,
+  maxQueryParams: optionalLimitSchema,
+  urlNormalization: urlNormalizationSchema,
+  customHeaders: headersSchema,
+  cookies: cookiesSchema,
+  basicAuthUsername: z.string(),
+  basicAuthPassword: z.string(),
+  loginFlow: loginFlowFormSchema,
 });
 
 interface CrawlerFormProps {
@@ -36,13 +139,60 @@ export default function CrawlerForm({ onCrawlStart, activeCrawlId }: CrawlerForm
       maxPages: 100,
       timeout: 10,
       includeCssBackgrounds: true,
+      lazyLoadAttributes: DEFAULT_LAZY_LOAD_ATTRIBUTES.join(", "),
+      probeImages: false,
+      concurrency: 4,
+      respectRobotsTxt: true,
+      requestsPerSecond: 5,
+      honorRetryAfter: true,
+      maxAttempts: 3,
+      maxRedirectHops: 2,
+      renderJavaScript: false,
+      autoScroll: true,
+      deviceProfile: "desktop",
+      compareProfile: "none",
+      sitemapMode: "seed",
+      scope: "origin",
+      allowedHosts: "",
+      includePatterns: "",
+      excludePatterns: "",
+      maxDepth: "",
+      maxQueryParams: "",
+      urlNormalization: DEFAULT_URL_NORMALIZATION,
+      customHeaders: "",
+      cookies: "",
+      basicAuthUsername: "",
+      basicAuthPassword: "",
+      loginFlow: {
+        url: "",
+        usernameSelector: "",
+        passwordSelector: "",
+        submitSelector: "",
+        username: "",
+        password: "",
+        successSelector: "",
+      },
     },
   });
 
   const startCrawlMutation = useMutation({
-    mutationFn: async (data: CrawlFormData) => {
+    mutationFn: async ({ basicAuthUsername, basicAuthPassword, loginFlow, ...data }: CrawlFormData) => {
       // Convert timeout from seconds to milliseconds for the API
-      const apiData = { ...data, timeout: data.timeout * 1000 };
+      const apiData = {
+        ...data,
+        timeout: data.timeout * 1000,
+        lazyLoadAttributes: data.lazyLoadAttributes.split(",").map((name) => name.trim()).filter(Boolean),
+        allowedHosts: splitHosts(data.allowedHosts),
+        includePatterns: splitPatterns(data.includePatterns),
+        excludePatterns: splitPatterns(data.excludePatterns),
+        maxDepth: parseLimit(data.maxDepth),
+        maxQueryParams: parseLimit(data.maxQueryParams),
+        customHeaders: Object.fromEntries(splitHeaderLines(data.customHeaders)),
+        cookies: parseCookieFile(data.cookies),
+        basicAuth: basicAuthUsername.trim() ? { username: basicAuthUsername.trim(), password: basicAuthPassword } : null,
+        loginFlow: data.renderJavaScript && loginFlow.url.trim() ? toLoginFlow(loginFlow) : null,
+        compareProfile: data.compareProfile === "none" ? null : data.compareProfile,
+      };
       const response = await apiRequest('POST', '/api/crawl', apiData);
       return response.json();
     },
@@ -67,6 +217,9 @@ export default function CrawlerForm({ onCrawlStart, activeCrawlId }: CrawlerForm
   };
 
   const isDisabled = !!activeCrawlId || startCrawlMutation.isPending;
+  const scope = form.watch("scope");
+  const renderJavaScript = form.watch("renderJavaScript");
+  const deviceProfile = form.watch("deviceProfile");
 
   return (
     <Card className="modern-card border-0 shadow-2xl">
@@ -103,7 +256,7 @@ export default function CrawlerForm({ onCrawlStart, activeCrawlId }: CrawlerForm
                       </div>
                     </div>
                   </FormControl>
-                  <p className="text-xs text-muted-foreground">Only same-origin pages will be crawled</p>
+                  <p className="text-xs text-muted-foreground">Links are followed within the crawl scope set below</p>
                   <FormMessage />
                 </FormItem>
               )}
@@ -187,6 +340,808 @@ export default function CrawlerForm({ onCrawlStart, activeCrawlId }: CrawlerForm
                     )}
                   />
                 </div>
+
+                {/* Probe Images - 2 columns */}
+                <div className="col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="probeImages"
+                    render={({ field }) => (
+                      <FormItem className="h-full">
+                        <FormLabel className="text-sm font-semibold text-foreground">Probe Images</FormLabel>
+                        <div className="flex items-center justify-center h-12 bg-card rounded-xl border border-border mt-2">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              className="h-5 w-5 text-primary focus:ring-primary border-border rounded"
+                              data-testid="checkbox-probe-images"
+                            />
+                          </FormControl>
+                          <span className="ml-3 text-sm text-muted-foreground">Size &amp; status</span>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Parallel Requests - 2 columns */}
+                <div className="col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="concurrency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-semibold text-foreground">Parallel Requests</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            type="number"
+                            min="1"
+                            max={MAX_PAGE_CONCURRENCY}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                            className="modern-input text-sm py-2"
+                            data-testid="input-concurrency"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Requests per Second - 2 columns */}
+                <div className="col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="requestsPerSecond"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-semibold text-foreground">Requests / sec</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.5"
+                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                            className="modern-input text-sm py-2"
+                            data-testid="input-requests-per-second"
+                          />
+                        </FormControl>
+                        <p className="text-xs text-muted-foreground">Per host, 0 for no limit</p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* robots.txt - 2 columns */}
+                <div className="col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="respectRobotsTxt"
+                    render={({ field }) => (
+                      <FormItem className="h-full">
+                        <FormLabel className="text-sm font-semibold text-foreground">robots.txt</FormLabel>
+                        <div className="flex items-center justify-center h-12 bg-card rounded-xl border border-border mt-2">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              className="h-5 w-5 text-primary focus:ring-primary border-border rounded"
+                              data-testid="checkbox-respect-robots-txt"
+                            />
+                          </FormControl>
+                          <span className="ml-3 text-sm text-muted-foreground">Obey rules &amp; delay</span>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Retry-After - 2 columns */}
+                <div className="col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="honorRetryAfter"
+                    render={({ field }) => (
+                      <FormItem className="h-full">
+                        <FormLabel className="text-sm font-semibold text-foreground">Retry-After</FormLabel>
+                        <div className="flex items-center justify-center h-12 bg-card rounded-xl border border-border mt-2">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              className="h-5 w-5 text-primary focus:ring-primary border-border rounded"
+                              data-testid="checkbox-honor-retry-after"
+                            />
+                          </FormControl>
+                          <span className="ml-3 text-sm text-muted-foreground">Back off on 429/503</span>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Attempts per Page - 2 columns */}
+                <div className="col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="maxAttempts"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-semibold text-foreground">Attempts / page</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            type="number"
+                            min="1"
+                            max={MAX_FETCH_ATTEMPTS}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                            className="modern-input text-sm py-2"
+                            data-testid="input-max-attempts"
+                          />
+                        </FormControl>
+                        <p className="text-xs text-muted-foreground">Retries timeouts, 429 &amp; 5xx</p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Redirect Hops - 2 columns */}
+                <div className="col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="maxRedirectHops"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-semibold text-foreground">Redirect hops</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            type="number"
+                            min="0"
+                            max={MAX_REDIRECTS}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                            className="modern-input text-sm py-2"
+                            data-testid="input-max-redirect-hops"
+                          />
+                        </FormControl>
+                        <p className="text-xs text-muted-foreground">Longer chains are reported, 0 for all</p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Render JavaScript - 2 columns */}
+                <div className="col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="renderJavaScript"
+                    render={({ field }) => (
+                      <FormItem className="h-full">
+                        <FormLabel className="text-sm font-semibold text-foreground">JavaScript</FormLabel>
+                        <div className="flex items-center justify-center h-12 bg-card rounded-xl border border-border mt-2">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              className="h-5 w-5 text-primary focus:ring-primary border-border rounded"
+                              data-testid="checkbox-render-javascript"
+                            />
+                          </FormControl>
+                          <span className="ml-3 text-sm text-muted-foreground">Render in browser</span>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+
+              {renderJavaScript && (
+                <FormField
+                  control={form.control}
+                  name="autoScroll"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-3 space-y-0 p-4 bg-card rounded-xl border border-border">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          className="h-5 w-5 text-primary focus:ring-primary border-border rounded"
+                          data-testid="checkbox-auto-scroll"
+                        />
+                      </FormControl>
+                      <FormLabel className="text-sm text-muted-foreground font-normal">
+                        Scroll each page to the bottom to trigger lazy-loaded images
+                      </FormLabel>
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Device profiles - half width each */}
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="deviceProfile"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-semibold text-foreground">Device</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          // Comparing a device against itself would diff nothing
+                          if (form.getValues("compareProfile") === value) form.setValue("compareProfile", "none");
+                        }}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="modern-input text-sm" data-testid="select-device-profile">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {DEVICE_PROFILE_NAMES.map((name) => (
+                            <SelectItem key={name} value={name}>{DEVICE_PROFILES[name].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="compareProfile"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-semibold text-foreground">Compare With</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="modern-input text-sm" data-testid="select-compare-profile">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">No comparison</SelectItem>
+                          {DEVICE_PROFILE_NAMES.filter((name) => name !== deviceProfile).map((name) => (
+                            <SelectItem key={name} value={name}>{DEVICE_PROFILES[name].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">
+                Sets the user agent; rendered crawls also emulate the device's screen. Comparing fetches every page as both devices.
+              </p>
+
+              {/* Sitemap mode - full width */}
+              <FormField
+                control={form.control}
+                name="sitemapMode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-semibold text-foreground">Sitemaps</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="modern-input text-sm" data-testid="select-sitemap-mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="off">Ignore sitemaps</SelectItem>
+                        <SelectItem value="seed">Follow links and sitemap URLs</SelectItem>
+                        <SelectItem value="only">Sitemap URLs only</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Crawl scope - full width */}
+              <FormField
+                control={form.control}
+                name="scope"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-semibold text-foreground">Crawl Scope</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="modern-input text-sm" data-testid="select-scope">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="origin">Same origin only</SelectItem>
+                        <SelectItem value="domain">All subdomains, http and https</SelectItem>
+                        <SelectItem value="hosts">Start host plus listed hosts</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {scope === "hosts" && (
+                <FormField
+                  control={form.control}
+                  name="allowedHosts"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-semibold text-foreground">Allowed Hosts</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          {...field}
+                          rows={2}
+                          placeholder={"www.example.com\nshop.example.com"}
+                          className="modern-input text-sm font-mono"
+                          data-testid="input-allowed-hosts"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Scope limits - half width each */}
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="maxDepth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-semibold text-foreground">Max Link Depth</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          min="0"
+                          placeholder="Unlimited"
+                          className="modern-input text-sm py-2"
+                          data-testid="input-max-depth"
+                        />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">Clicks away from the start page or a sitemap URL</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="maxQueryParams"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-semibold text-foreground">Max Query Params</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          min="0"
+                          placeholder="Unlimited"
+                          className="modern-input text-sm py-2"
+                          data-testid="input-max-query-params"
+                        />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">Skip links with more query parameters</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* URL patterns - half width each */}
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="includePatterns"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-semibold text-foreground">Include URLs</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          {...field}
+                          rows={3}
+                          placeholder="/blog/**"
+                          className="modern-input text-sm font-mono"
+                          data-testid="input-include-patterns"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="excludePatterns"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-semibold text-foreground">Exclude URLs</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          {...field}
+                          rows={3}
+                          placeholder={"/tag/*\nre:[?&]sort="}
+                          className="modern-input text-sm font-mono"
+                          data-testid="input-exclude-patterns"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">
+                One pattern per line, matched against the path and query. Globs use * and **; prefix with re: for a regular expression.
+              </p>
+
+              {/* URL normalization - full width */}
+              <div className="space-y-3">
+                <Label className="text-sm font-semibold text-foreground">URL Normalization</Label>
+                <div className="grid grid-cols-2 gap-3 p-4 bg-card rounded-xl border border-border">
+                  <FormField
+                    control={form.control}
+                    name="urlNormalization.stripTrackingParams"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center space-x-3 space-y-0">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            className="h-5 w-5 text-primary focus:ring-primary border-border rounded"
+                            data-testid="checkbox-strip-tracking-params"
+                          />
+                        </FormControl>
+                        <FormLabel className="text-sm text-muted-foreground font-normal">Strip tracking params</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="urlNormalization.sortQueryParams"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center space-x-3 space-y-0">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            className="h-5 w-5 text-primary focus:ring-primary border-border rounded"
+                            data-testid="checkbox-sort-query-params"
+                          />
+                        </FormControl>
+                        <FormLabel className="text-sm text-muted-foreground font-normal">Sort query params</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="urlNormalization.lowercasePath"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center space-x-3 space-y-0">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            className="h-5 w-5 text-primary focus:ring-primary border-border rounded"
+                            data-testid="checkbox-lowercase-path"
+                          />
+                        </FormControl>
+                        <FormLabel className="text-sm text-muted-foreground font-normal">Lowercase paths</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="urlNormalization.honorCanonical"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center space-x-3 space-y-0">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            className="h-5 w-5 text-primary focus:ring-primary border-border rounded"
+                            data-testid="checkbox-honor-canonical"
+                          />
+                        </FormControl>
+                        <FormLabel className="text-sm text-muted-foreground font-normal">Honour rel=canonical</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="urlNormalization.trailingSlash"
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="modern-input text-sm" data-testid="select-trailing-slash">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="strip">Remove trailing slashes</SelectItem>
+                            <SelectItem value="add">Add trailing slashes</SelectItem>
+                            <SelectItem value="keep">Keep trailing slashes as linked</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+
+              {/* Lazy-load attributes - full width */}
+              <FormField
+                control={form.control}
+                name="lazyLoadAttributes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-semibold text-foreground">Lazy-load Attributes</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="text"
+                        className="modern-input text-sm py-2"
+                        data-testid="input-lazy-load-attributes"
+                      />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">Comma-separated attributes checked for the real image URL</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Authentication - full width */}
+              <div className="space-y-3">
+                <Label className="text-sm font-semibold text-foreground">Authentication</Label>
+                <div className="space-y-4 p-4 bg-card rounded-xl border border-border">
+                  <FormField
+                    control={form.control}
+                    name="customHeaders"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-semibold text-foreground">Custom Headers</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            {...field}
+                            rows={2}
+                            placeholder={"X-Api-Key: abc123\nAccept-Language: en-GB"}
+                            className="modern-input text-sm font-mono"
+                            data-testid="input-custom-headers"
+                          />
+                        </FormControl>
+                        <p className="text-xs text-muted-foreground">One per line; only sent to hosts in the crawl scope</p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="cookies"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-semibold text-foreground">Cookies</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            {...field}
+                            rows={3}
+                            placeholder="Paste a cookies.txt or a JSON cookie export"
+                            className="modern-input text-sm font-mono"
+                            data-testid="input-cookies"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="basicAuthUsername"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-semibold text-foreground">HTTP Username</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              type="text"
+                              autoComplete="off"
+                              className="modern-input text-sm py-2"
+                              data-testid="input-basic-auth-username"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="basicAuthPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-semibold text-foreground">HTTP Password</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              type="password"
+                              autoComplete="off"
+                              className="modern-input text-sm py-2"
+                              data-testid="input-basic-auth-password"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  {renderJavaScript && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="loginFlow.url"
+                        render={({ field }) => (
+                          <FormItem className="col-span-2">
+                            <FormLabel className="text-sm font-semibold text-foreground">Login Page URL</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                type="url"
+                                placeholder="https://example.com/login"
+                                className="modern-input text-sm py-2"
+                                data-testid="input-login-url"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="loginFlow.usernameSelector"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-sm font-semibold text-foreground">Username Field</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                type="text"
+                                placeholder="#email"
+                                className="modern-input text-sm py-2"
+                                data-testid="input-login-username-selector"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="loginFlow.passwordSelector"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-sm font-semibold text-foreground">Password Field</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                type="text"
+                                placeholder="#password"
+                                className="modern-input text-sm py-2"
+                                data-testid="input-login-password-selector"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="loginFlow.submitSelector"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-sm font-semibold text-foreground">Submit Button</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                type="text"
+                                placeholder="button[type=submit]"
+                                className="modern-input text-sm py-2"
+                                data-testid="input-login-submit-selector"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="loginFlow.successSelector"
+                        render={({ field }) => (
+                          <FormItem className="col-span-2">
+                            <FormLabel className="text-sm font-semibold text-foreground">Logged-in Element</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                type="text"
+                                placeholder="Optional, e.g. .account-menu"
+                                className="modern-input text-sm py-2"
+                                data-testid="input-login-success-selector"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="loginFlow.username"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-sm font-semibold text-foreground">Username</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                type="text"
+                                className="modern-input text-sm py-2"
+                                data-testid="input-login-username"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="loginFlow.password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-sm font-semibold text-foreground">Password</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                type="password"
+                                autoComplete="off"
+                                className="modern-input text-sm py-2"
+                                data-testid="input-login-password"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <p className="col-span-2 text-xs text-muted-foreground">
+                        Filled in and submitted once before crawling; leave the URL blank to skip. Selectors are CSS.
+                      </p>
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
 
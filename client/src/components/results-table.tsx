@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Search, Download, Trash2, Eye, Copy, ExternalLink } from "lucide-react";
+import { Search, Download, Trash2, Eye, Copy, ExternalLink, ImageOff, FileText, ArrowUpDown, ArrowDown, ArrowUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -9,8 +9,11 @@ import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { type CrawledImage } from "@shared/schema";
+import { type CrawledImage, type ImageDiscoveryMethod, type ImageSourceKind, IMAGE_SOURCES } from "@shared/schema";
+import { auditResponsiveImage } from "@shared/image-audit";
 import { type ImageFilter } from "@/lib/types";
+import BrokenImagesTable from "@/components/broken-images-table";
+import CrawledPagesTable from "@/components/crawled-pages-table";
 
 // Debounce utility function
 function debounce<T extends (...args: any[]) => any>(
@@ -24,19 +27,49 @@ function debounce<T extends (...args: any[]) => any>(
   };
 }
 
+const IMAGE_SOURCE_LABELS: Record<ImageSourceKind, string> = {
+  img: 'Img Tags',
+  picture: 'Picture',
+  svg: 'Inline SVG',
+  css: 'CSS',
+  og: 'Open Graph',
+  twitter: 'Twitter Card',
+  icon: 'Icons',
+  manifest: 'Manifest',
+  'json-ld': 'JSON-LD',
+  network: 'Network Only'
+};
+
+// Shown for images that only a rendered crawl could find
+const DISCOVERY_LABELS: Record<ImageDiscoveryMethod, string | null> = {
+  html: null,
+  dom: 'Added by JS',
+  network: 'Network log'
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 interface ResultsTableProps {
   refreshTrigger: number;
+  jobId: string | null;
   onImageView: (image: CrawledImage) => void;
 }
 
-export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTableProps) {
+export default function ResultsTable({ refreshTrigger, jobId, onImageView }: ResultsTableProps) {
   const { toast } = useToast();
+  const [view, setView] = useState<'all' | 'broken' | 'pages'>('all');
   const [filters, setFilters] = useState<ImageFilter>({
     search: '',
     altTextFilter: 'all',
-    imageTypeFilter: 'all'
+    imageTypeFilter: 'all',
+    sourceFilter: 'all'
   });
   const [customAltTexts, setCustomAltTexts] = useState<Record<string, string>>({});
+  const [wastedSort, setWastedSort] = useState<'none' | 'desc' | 'asc'>('none');
 
   // Debounced function to update custom alt texts state
   const debouncedUpdateState = useCallback(
@@ -62,6 +95,7 @@ export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTab
       if (filters.search) params.append('search', filters.search);
       if (filters.altTextFilter !== 'all') params.append('altTextFilter', filters.altTextFilter);
       if (filters.imageTypeFilter !== 'all') params.append('imageTypeFilter', filters.imageTypeFilter);
+      if (filters.sourceFilter !== 'all') params.append('sourceFilter', filters.sourceFilter);
       
       const response = await fetch(`/api/images?${params}`);
       if (!response.ok) throw new Error('Failed to fetch images');
@@ -229,6 +263,19 @@ export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTab
     }
   };
 
+  // Images without an estimate always sort last
+  const sortedImages: CrawledImage[] = wastedSort === 'none'
+    ? images
+    : [...images].sort((a: CrawledImage, b: CrawledImage) => {
+        if (a.wastedBytes === null) return b.wastedBytes === null ? 0 : 1;
+        if (b.wastedBytes === null) return -1;
+        return wastedSort === 'desc' ? b.wastedBytes - a.wastedBytes : a.wastedBytes - b.wastedBytes;
+      });
+
+  const cycleWastedSort = () => {
+    setWastedSort(wastedSort === 'none' ? 'desc' : wastedSort === 'desc' ? 'asc' : 'none');
+  };
+
   const uniquePages = Array.from(new Set(images.map((img: CrawledImage) => img.pageUrl))).length;
 
   console.log('ResultsTable: Rendering with images:', {
@@ -280,6 +327,26 @@ export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTab
               >
                 Fix URLs
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => setView(view === 'broken' ? 'all' : 'broken')}
+                disabled={!jobId}
+                className="modern-input px-4 py-2 text-sm font-medium text-foreground bg-card hover:bg-card/80 border-border"
+                data-testid="button-toggle-broken-images"
+              >
+                <ImageOff className="mr-2" size={16} />
+                {view === 'broken' ? 'All Images' : 'Broken Images'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setView(view === 'pages' ? 'all' : 'pages')}
+                disabled={!jobId}
+                className="modern-input px-4 py-2 text-sm font-medium text-foreground bg-card hover:bg-card/80 border-border"
+                data-testid="button-toggle-crawled-pages"
+              >
+                <FileText className="mr-2" size={16} />
+                {view === 'pages' ? 'All Images' : 'Pages'}
+              </Button>
               <Button
                 variant="outline"
                 onClick={() => clearResultsMutation.mutate()}
@@ -302,9 +369,15 @@ export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTab
           </div>
         </div>
 
+        {view === 'broken' && jobId ? (
+          <BrokenImagesTable jobId={jobId} refreshTrigger={refreshTrigger} />
+        ) : view === 'pages' && jobId ? (
+          <CrawledPagesTable jobId={jobId} refreshTrigger={refreshTrigger} />
+        ) : (
+        <>
         {/* Filters and Search */}
         <div className="p-6 border-b border-border/20 bg-card/50">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             {/* Search */}
             <div className="md:col-span-2">
               <div className="relative">
@@ -365,6 +438,27 @@ export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTab
                 </SelectContent>
               </Select>
             </div>
+
+            {/* Image Source Filter */}
+            <div>
+              <Select 
+                value={filters.sourceFilter} 
+                onValueChange={(value) => setFilters(prev => ({ ...prev, sourceFilter: value }))}
+              >
+                <SelectTrigger 
+                  className="modern-input border-border focus:ring-2 focus:ring-primary focus:border-primary text-sm"
+                  data-testid="select-source-filter"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Sources</SelectItem>
+                  {IMAGE_SOURCES.map((source) => (
+                    <SelectItem key={source} value={source}>{IMAGE_SOURCE_LABELS[source]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </div>
 
@@ -389,6 +483,17 @@ export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTab
                   <TableHead className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider bg-card/50">
                     Type
                   </TableHead>
+                  <TableHead className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider bg-card/50">
+                    <button
+                      type="button"
+                      onClick={cycleWastedSort}
+                      className="inline-flex items-center uppercase tracking-wider hover:text-foreground transition-colors"
+                      data-testid="button-sort-wasted"
+                    >
+                      Wasted
+                      {wastedSort === 'desc' ? <ArrowDown className="ml-1" size={12} /> : wastedSort === 'asc' ? <ArrowUp className="ml-1" size={12} /> : <ArrowUpDown className="ml-1" size={12} />}
+                    </button>
+                  </TableHead>
                   <TableHead className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider bg-card/50 rounded-tr-xl">
                     Actions
                   </TableHead>
@@ -398,7 +503,7 @@ export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTab
                 {images.length === 0 ? (
                   <TableRow>
                     <TableCell 
-                      colSpan={6} 
+                      colSpan={7} 
                       className="px-6 py-12 text-center text-muted-foreground"
                       data-testid="text-no-results"
                     >
@@ -409,7 +514,7 @@ export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTab
                     </TableCell>
                   </TableRow>
                 ) : (
-                  images.map((image: CrawledImage) => {
+                  sortedImages.map((image: CrawledImage) => {
                     console.log('ResultsTable: Rendering image row:', {
                       id: image.id,
                       imageUrl: image.imageUrl,
@@ -443,7 +548,24 @@ export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTab
                               </div>
                               <div className="text-xs text-muted-foreground" data-testid={`text-dimensions-${image.id}`}>
                                 {image.dimensions || 'Unknown size'}
+                                {image.byteSize !== null && ` • ${image.contentHash ? 'Inline, ' : ''}${formatBytes(image.byteSize)}`}
+                                {image.httpStatus !== null && image.httpStatus !== 200 && ` • HTTP ${image.httpStatus}`}
+                                {image.probeError && ` • ${image.probeError}`}
                               </div>
+                              {image.sources && (() => {
+                                const audit = auditResponsiveImage(image.sources);
+                                return (
+                                  <div className="flex items-center gap-1 mt-1" data-testid={`text-srcset-${image.id}`}>
+                                    <span className="text-xs text-muted-foreground">{audit.candidateCount} candidates</span>
+                                    {!audit.hasHighDensityVariant && (
+                                      <Badge className="px-1.5 py-0 text-[10px] bg-warning/20 text-warning border border-warning/30">No 2x</Badge>
+                                    )}
+                                    {!audit.hasModernFormat && (
+                                      <Badge className="px-1.5 py-0 text-[10px] bg-warning/20 text-warning border border-warning/30">No WebP/AVIF</Badge>
+                                    )}
+                                  </div>
+                                );
+                              })()}
                             </div>
                           </div>
                         </TableCell>
@@ -459,6 +581,12 @@ export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTab
                               <ExternalLink className="inline ml-2" size={14} />
                             </a>
                           </div>
+                          {image.cssSelector && (
+                            <div className="text-xs text-muted-foreground break-all max-w-xs mt-1" data-testid={`text-css-selector-${image.id}`}>
+                              CSS: <code>{image.cssSelector}</code>
+                              {image.stylesheetUrl && <> in {image.stylesheetUrl}</>}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="px-6 py-4">
                           <div className="text-sm text-foreground" data-testid={`text-alt-text-${image.id}`}>
@@ -476,6 +604,22 @@ export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTab
                           >
                             {image.altText ? '✓ Has Alt' : '⚠ Missing Alt'}
                           </Badge>
+                          {image.placeholderUrl && image.placeholderUrl === image.imageUrl && (
+                            <Badge
+                              className="mt-2 ml-1 inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-warning/20 text-warning border border-warning/30"
+                              data-testid={`badge-placeholder-${image.id}`}
+                            >
+                              ⚠ Placeholder
+                            </Badge>
+                          )}
+                          {image.lazyLoadSource && (
+                            <Badge
+                              className="mt-2 ml-1 inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-muted text-muted-foreground border border-border"
+                              data-testid={`badge-lazy-load-${image.id}`}
+                            >
+                              Lazy: {image.lazyLoadSource}
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell className="px-6 py-4 w-96">
                           <Input
@@ -494,6 +638,24 @@ export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTab
                           >
                             {(image.imageType || 'unknown').toUpperCase()}
                           </Badge>
+                          <div className="text-xs text-muted-foreground mt-2" data-testid={`text-source-${image.id}`}>
+                            {IMAGE_SOURCE_LABELS[image.source]}
+                          </div>
+                          {DISCOVERY_LABELS[image.discovery] && (
+                            <div className="text-xs text-muted-foreground" data-testid={`text-discovery-${image.id}`}>
+                              {DISCOVERY_LABELS[image.discovery]}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="px-6 py-4 whitespace-nowrap">
+                          <div className={`text-sm ${image.wastedBytes ? 'text-warning font-semibold' : 'text-foreground'}`} data-testid={`text-wasted-${image.id}`}>
+                            {image.wastedBytes !== null ? formatBytes(image.wastedBytes) : '—'}
+                          </div>
+                          {image.renderedWidth !== null && image.naturalWidth !== null && (
+                            <div className="text-xs text-muted-foreground mt-1" data-testid={`text-rendered-size-${image.id}`}>
+                              {image.renderedWidth}x{image.renderedHeight} @{image.devicePixelRatio ?? 1}x of {image.naturalWidth}x{image.naturalHeight}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                           <div className="flex space-x-2">
@@ -532,6 +694,8 @@ export default function ResultsTable({ refreshTrigger, onImageView }: ResultsTab
             </Table>
           </div>
         </div>
+        </>
+        )}
       </CardContent>
     </Card>
   );
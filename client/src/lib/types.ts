@@ -1,8 +1,53 @@
+import { type CrawlScopeMode, type DeviceProfileName, type SitemapMode, type UrlNormalization } from "@shared/schema";
+
 export interface CrawlFormData {
   targetUrl: string;
   maxPages: number;
   timeout: number;
   includeCssBackgrounds: boolean;
+  lazyLoadAttributes: string;
+  probeImages: boolean;
+  concurrency: number;
+  respectRobotsTxt: boolean;
+  requestsPerSecond: number;
+  honorRetryAfter: boolean;
+  maxAttempts: number;
+  maxRedirectHops: number;
+  renderJavaScript: boolean;
+  autoScroll: boolean;
+  deviceProfile: DeviceProfileName;
+  // "none" fetches pages as one device only
+  compareProfile: DeviceProfileName | "none";
+  sitemapMode: SitemapMode;
+  scope: CrawlScopeMode;
+  // Comma or newline separated
+  allowedHosts: string;
+  // One pattern per line
+  includePatterns: string;
+  excludePatterns: string;
+  // Blank means unlimited
+  maxDepth: string;
+  maxQueryParams: string;
+  urlNormalization: UrlNormalization;
+  // One "Name: value" header per line
+  customHeaders: string;
+  // A cookies.txt or JSON cookie export
+  cookies: string;
+  // A blank username sends no credentials
+  basicAuthUsername: string;
+  basicAuthPassword: string;
+  // A blank URL skips the login; only run when JavaScript is rendered
+  loginFlow: LoginFlowFormData;
+}
+
+export interface LoginFlowFormData {
+  url: string;
+  usernameSelector: string;
+  passwordSelector: string;
+  submitSelector: string;
+  username: string;
+  password: string;
+  successSelector: string;
 }
 
 export interface CrawlProgress {
@@ -11,6 +56,8 @@ export interface CrawlProgress {
   pagesProcessed: number;
   totalPagesFound: number;
   imagesFound: number;
+  duplicatesCollapsed?: number;
+  failedPages?: number;
   currentPage?: string;
   elapsedTime?: string;
   error?: string;
@@ -20,4 +67,5 @@ export interface ImageFilter {
   search: string;
   altTextFilter: 'all' | 'with-alt' | 'without-alt';
   imageTypeFilter: string;
+  sourceFilter: string;
 }
@@ -8,11 +8,14 @@ import { type CrawledImage } from "@shared/schema";
 
 export default function Home() {
   const [activeCrawlId, setActiveCrawlId] = useState<string | null>(null);
+  // Most recent crawl, kept after it finishes so its reports stay reachable
+  const [lastCrawlId, setLastCrawlId] = useState<string | null>(null);
   const [selectedImage, setSelectedImage] = useState<CrawledImage | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
   const handleCrawlStart = (crawlId: string) => {
     setActiveCrawlId(crawlId);
+    setLastCrawlId(crawlId);
   };
 
   const handleCrawlComplete = () => {
@@ -93,6 +96,7 @@ export default function Home() {
         <div className="w-full hover-lift">
           <ResultsTable 
             refreshTrigger={refreshTrigger}
+            jobId={lastCrawlId}
             onImageView={handleImageView}
           />
         </div>
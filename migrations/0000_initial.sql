@@ -0,0 +1,70 @@
+CREATE TABLE "crawl_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"target_url" text NOT NULL,
+	"max_pages" integer DEFAULT 100 NOT NULL,
+	"timeout" integer DEFAULT 60000 NOT NULL,
+	"include_css_backgrounds" boolean DEFAULT true NOT NULL,
+	"lazy_load_attributes" jsonb DEFAULT '["data-src","data-srcset","data-original","data-lazy-src","data-lazy-srcset","data-lazy","data-url"]'::jsonb NOT NULL,
+	"probe_images" boolean DEFAULT false NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"pages_processed" integer DEFAULT 0 NOT NULL,
+	"total_pages_found" integer DEFAULT 0 NOT NULL,
+	"images_found" integer DEFAULT 0 NOT NULL,
+	"current_page" text,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "crawled_images" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" varchar NOT NULL,
+	"page_url" text NOT NULL,
+	"image_url" text NOT NULL,
+	"source" text DEFAULT 'img' NOT NULL,
+	"alt_text" text,
+	"img_tag_html" text,
+	"image_type" text,
+	"filename" text,
+	"dimensions" text,
+	"sources" jsonb,
+	"lazy_load_source" text,
+	"placeholder_url" text,
+	"css_selector" text,
+	"stylesheet_url" text,
+	"content_hash" varchar,
+	"byte_size" integer,
+	"mime_type" text,
+	"http_status" integer,
+	"final_url" text,
+	"redirect_chain" jsonb,
+	"probe_error" text,
+	"natural_width" integer,
+	"natural_height" integer,
+	"rendered_width" integer,
+	"rendered_height" integer,
+	"device_pixel_ratio" real,
+	"wasted_bytes" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "image_payloads" (
+	"hash" varchar PRIMARY KEY NOT NULL,
+	"mime_type" text NOT NULL,
+	"byte_size" integer NOT NULL,
+	"data" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "crawled_images" ADD CONSTRAINT "crawled_images_job_id_crawl_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."crawl_jobs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "crawled_images_job_id_idx" ON "crawled_images" USING btree ("job_id");--> statement-breakpoint
+CREATE INDEX "crawled_images_page_url_idx" ON "crawled_images" USING btree ("page_url");--> statement-breakpoint
+CREATE INDEX "crawled_images_image_url_idx" ON "crawled_images" USING btree ("image_url");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "crawl_frontier" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_id" varchar NOT NULL,
+	"url" text NOT NULL,
+	"state" text DEFAULT 'queued' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "crawl_frontier" ADD CONSTRAINT "crawl_frontier_job_id_crawl_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."crawl_jobs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "crawl_frontier_job_id_url_idx" ON "crawl_frontier" USING btree ("job_id","url");
\ No newline at end of file
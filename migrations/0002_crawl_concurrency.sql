@@ -0,0 +1 @@
+ALTER TABLE "crawl_jobs" ADD COLUMN "concurrency" integer DEFAULT 4 NOT NULL;
\ No newline at end of file
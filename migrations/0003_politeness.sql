@@ -0,0 +1,3 @@
+ALTER TABLE "crawl_jobs" ADD COLUMN "respect_robots_txt" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "requests_per_second" real DEFAULT 5 NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "honor_retry_after" boolean DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "sitemap_images" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" varchar NOT NULL,
+	"page_url" text NOT NULL,
+	"image_url" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "sitemap_mode" text DEFAULT 'seed' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sitemap_images" ADD CONSTRAINT "sitemap_images_job_id_crawl_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."crawl_jobs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sitemap_images_job_id_idx" ON "sitemap_images" USING btree ("job_id");
\ No newline at end of file
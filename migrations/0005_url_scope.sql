@@ -0,0 +1,6 @@
+ALTER TABLE "crawl_frontier" ADD COLUMN "depth" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "include_patterns" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "exclude_patterns" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "max_depth" integer;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "max_query_params" integer;--> statement-breakpoint
+ALTER TABLE "crawled_images" ADD COLUMN "page_depth" integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "crawl_jobs" ADD COLUMN "url_normalization" jsonb DEFAULT '{"stripTrackingParams":true,"sortQueryParams":true,"trailingSlash":"strip","lowercasePath":false,"honorCanonical":true}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "duplicates_collapsed" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "crawl_jobs" ADD COLUMN "scope" text DEFAULT 'origin' NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "allowed_hosts" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawled_images" ADD COLUMN "image_host" text;--> statement-breakpoint
+ALTER TABLE "crawled_images" ADD COLUMN "third_party" boolean;
\ No newline at end of file
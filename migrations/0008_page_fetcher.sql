@@ -0,0 +1,2 @@
+ALTER TABLE "crawl_jobs" ADD COLUMN "render_javascript" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "fetch_mode" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "crawl_jobs" ADD COLUMN "auto_scroll" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawled_images" ADD COLUMN "discovery" text DEFAULT 'html' NOT NULL;
\ No newline at end of file
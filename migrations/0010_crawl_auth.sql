@@ -0,0 +1,4 @@
+ALTER TABLE "crawl_jobs" ADD COLUMN "custom_headers" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "cookies" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "basic_auth" jsonb;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "login_flow" jsonb;
\ No newline at end of file
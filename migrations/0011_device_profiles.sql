@@ -0,0 +1,3 @@
+ALTER TABLE "crawl_jobs" ADD COLUMN "device_profile" text DEFAULT 'desktop' NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "compare_profile" text;--> statement-breakpoint
+ALTER TABLE "crawled_images" ADD COLUMN "device_profile" text DEFAULT 'desktop' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "crawled_pages" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" varchar NOT NULL,
+	"url" text NOT NULL,
+	"outcome" text NOT NULL,
+	"http_status" integer,
+	"redirect_chain" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"final_url" text,
+	"content_type" text,
+	"ttfb" integer,
+	"total_time" integer,
+	"byte_size" integer,
+	"retry_count" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"depth" integer DEFAULT 0 NOT NULL,
+	"referrer" text,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "crawl_frontier" ADD COLUMN "referrer" text;--> statement-breakpoint
+ALTER TABLE "crawl_jobs" ADD COLUMN "failed_pages" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawled_pages" ADD CONSTRAINT "crawled_pages_job_id_crawl_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."crawl_jobs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "crawled_pages_job_id_idx" ON "crawled_pages" USING btree ("job_id");
\ No newline at end of file
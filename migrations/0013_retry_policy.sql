@@ -0,0 +1,2 @@
+ALTER TABLE "crawl_jobs" ADD COLUMN "max_attempts" integer DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE "crawled_pages" ADD COLUMN "attempts" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
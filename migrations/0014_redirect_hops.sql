@@ -0,0 +1 @@
+ALTER TABLE "crawl_jobs" ADD COLUMN "max_redirect_hops" integer DEFAULT 2 NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "crawled_pages" ADD COLUMN "comparison_error" text;
\ No newline at end of file
@@ -0,0 +1,17 @@
+import path from "path";
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+export function createDatabase(connectionString: string): Database {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+// Applies any migrations in ./migrations (written by `npm run db:generate`) not yet run
+export async function migrateDatabase(db: Database): Promise<void> {
+  await migrate(db, { migrationsFolder: path.resolve(process.cwd(), "migrations") });
+}
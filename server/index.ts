@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage, DatabaseStorage } from "./storage";
+import { jobScheduler } from "./services/job-scheduler";
 
 const app = express();
 app.use(express.json());
@@ -49,6 +51,12 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (storage instanceof DatabaseStorage) {
+    await storage.migrate();
+    log("database migrations applied");
+  }
+  await jobScheduler.recoverInterruptedJobs();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -1,8 +1,12 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { simpleCrawlerService } from "./services/simple-crawler";
-import { insertCrawlJobSchema } from "@shared/schema";
+import { crawlerService } from "./services/crawler";
+import { jobScheduler, type JobAction } from "./services/job-scheduler";
+import { redactCrawlJob } from "./services/crawl-auth";
+import { createUrlNormalizer } from "./services/url-normalizer";
+import { buildBrokenImageReport, buildDeviceComparisonFailures, buildDeviceImageDiffReport, buildImageHostReport, buildRedirectChainReport, buildSitemapImageReport } from "./services/reports";
+import { insertCrawlJobSchema, type BrokenImageReport, type DeviceImageDiffReport, type ImageHostReport, type RedirectChainReport, type SitemapImageReport } from "@shared/schema";
 import { z } from "zod";
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -14,10 +18,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const jobData = insertCrawlJobSchema.parse(req.body);
       const job = await storage.createCrawlJob(jobData);
       
-      // Start crawling asynchronously
-      simpleCrawlerService.startCrawl(job.id).catch(console.error);
+      // Queued; starts as soon as a crawl slot is free
+      jobScheduler.enqueue(job.id);
       
-      res.json(job);
+      res.json(redactCrawlJob(job));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: "Invalid input", details: error.errors });
@@ -31,7 +35,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/crawl", async (req, res) => {
     try {
       const jobs = await storage.getCrawlJobs();
-      res.json(jobs);
+      res.json(jobs.map(redactCrawlJob));
     } catch (error) {
       res.status(500).json({ error: "Internal server error" });
     }
@@ -45,7 +49,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.status(404).json({ error: "Job not found" });
         return;
       }
-      res.json(job);
+      res.json(redactCrawlJob(job));
+    } catch (error) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Cancel, pause or resume a crawl job
+  app.post("/api/crawl/:id/:action(cancel|pause|resume)", async (req, res) => {
+    try {
+      const action = req.params.action as JobAction;
+      const job = await storage.getCrawlJob(req.params.id);
+      if (!job) {
+        res.status(404).json({ error: "Job not found" });
+        return;
+      }
+      if (!jobScheduler.canApply(action, job)) {
+        res.status(409).json({ error: `Cannot ${action} a job that is ${job.status}` });
+        return;
+      }
+
+      const updatedJob = action === 'cancel' ? await jobScheduler.cancel(job.id)
+        : action === 'pause' ? await jobScheduler.pause(job.id)
+        : await jobScheduler.resume(job.id);
+      res.json(updatedJob && redactCrawlJob(updatedJob));
     } catch (error) {
       res.status(500).json({ error: "Internal server error" });
     }
@@ -61,6 +88,153 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get broken images (4xx/5xx, timeouts, DNS failures) for a crawl job
+  app.get("/api/crawl/:id/broken-images", async (req, res) => {
+    try {
+      const job = await storage.getCrawlJob(req.params.id);
+      if (!job) {
+        res.status(404).json({ error: "Job not found" });
+        return;
+      }
+      
+      const images = await storage.getCrawledImagesByJobId(job.id);
+      const report: BrokenImageReport = {
+        jobId: job.id,
+        probed: job.probeImages,
+        brokenImages: buildBrokenImageReport(images)
+      };
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Compare image sitemap entries with the images found on each page
+  app.get("/api/crawl/:id/sitemap-images", async (req, res) => {
+    try {
+      const job = await storage.getCrawlJob(req.params.id);
+      if (!job) {
+        res.status(404).json({ error: "Job not found" });
+        return;
+      }
+
+      const sitemapImages = await storage.getSitemapImagesByJobId(job.id);
+      const images = await storage.getCrawledImagesByJobId(job.id);
+      const pages = await storage.getCrawledPagesByJobId(job.id);
+      const report: SitemapImageReport = {
+        jobId: job.id,
+        pages: buildSitemapImageReport(sitemapImages, images, pages, createUrlNormalizer(job.urlNormalization))
+      };
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // First- and third-party hosts serving the crawl's images
+  app.get("/api/crawl/:id/image-hosts", async (req, res) => {
+    try {
+      const job = await storage.getCrawlJob(req.params.id);
+      if (!job) {
+        res.status(404).json({ error: "Job not found" });
+        return;
+      }
+
+      const images = await storage.getCrawledImagesByJobId(job.id);
+      const report: ImageHostReport = {
+        jobId: job.id,
+        hosts: buildImageHostReport(images)
+      };
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Crawl log: one entry per page URL attempted, in crawl order
+  app.get("/api/crawl/:id/pages", async (req, res) => {
+    try {
+      const job = await storage.getCrawlJob(req.params.id);
+      if (!job) {
+        res.status(404).json({ error: "Job not found" });
+        return;
+      }
+
+      const pages = await storage.getCrawledPagesByJobId(job.id);
+      res.json(pages);
+    } catch (error) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Redirect loops and chains longer than the job's maxRedirectHops
+  app.get("/api/crawl/:id/redirects", async (req, res) => {
+    try {
+      const job = await storage.getCrawlJob(req.params.id);
+      if (!job) {
+        res.status(404).json({ error: "Job not found" });
+        return;
+      }
+
+      const report: RedirectChainReport = {
+        jobId: job.id,
+        maxRedirectHops: job.maxRedirectHops,
+        chains: buildRedirectChainReport(await storage.getCrawledPagesByJobId(job.id), job.maxRedirectHops)
+      };
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Images served to one device but not the other, for crawls comparing two device profiles
+  app.get("/api/crawl/:id/device-diff", async (req, res) => {
+    try {
+      const job = await storage.getCrawlJob(req.params.id);
+      if (!job) {
+        res.status(404).json({ error: "Job not found" });
+        return;
+      }
+
+      const failures = job.compareProfile
+        ? buildDeviceComparisonFailures(await storage.getCrawledPagesByJobId(job.id), createUrlNormalizer(job.urlNormalization))
+        : [];
+      const report: DeviceImageDiffReport = {
+        jobId: job.id,
+        primaryProfile: job.deviceProfile,
+        compareProfile: job.compareProfile,
+        pages: job.compareProfile
+          ? buildDeviceImageDiffReport(await storage.getCrawledImagesByJobId(job.id), job.deviceProfile, job.compareProfile, failures)
+          : [],
+        failures
+      };
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Serve the decoded payload of an inline SVG or data: URI image
+  app.get("/api/image-payloads/:hash", async (req, res) => {
+    try {
+      const payload = await storage.getImagePayload(req.params.hash);
+      if (!payload) {
+        res.status(404).json({ error: "Payload not found" });
+        return;
+      }
+      
+      res.setHeader('Content-Type', payload.mimeType);
+      res.setHeader('Content-Length', payload.byteSize);
+      // Payloads are crawled content; SVGs must not run scripts on our origin
+      res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; img-src data:; sandbox");
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+      res.send(Buffer.from(payload.data, 'base64'));
+    } catch (error) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Get all images with filtering and search
   app.get("/api/images", async (req, res) => {
     try {
@@ -76,7 +250,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }))
       });
       
-      const { search, altTextFilter, imageTypeFilter } = req.query;
+      const { search, altTextFilter, imageTypeFilter, sourceFilter } = req.query;
       
       // Apply search filter
       if (search && typeof search === 'string') {
@@ -101,9 +275,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         images = images.filter(img => img.imageType === imageTypeFilter);
       }
       
+      // Apply image source filter (img, og, icon, ...)
+      if (sourceFilter && typeof sourceFilter === 'string' && sourceFilter !== 'all') {
+        images = images.filter(img => img.source === sourceFilter);
+      }
+      
       console.log('API /api/images: Returning filtered images:', {
         filteredCount: images.length,
-        filters: { search, altTextFilter, imageTypeFilter }
+        filters: { search, altTextFilter, imageTypeFilter, sourceFilter }
       });
       
       res.json(images);
@@ -119,17 +298,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const images = await storage.getAllCrawledImages();
       
       // Create CSV content
-      const headers = ['page_url', 'image_url', 'alt_text', 'img_tag_html', 'filename', 'image_type'];
+      const headers = ['page_url', 'image_url', 'source', 'alt_text', 'img_tag_html', 'filename', 'image_type', 'srcset_candidates', 'dimensions', 'http_status', 'content_type', 'byte_size', 'final_url', 'rendered_size', 'wasted_bytes', 'page_depth', 'image_host', 'third_party', 'discovery', 'device_profile'];
       const csvRows = [headers.join(',')];
       
       for (const image of images) {
         const row = [
           `"${image.pageUrl}"`,
           `"${image.imageUrl}"`,
+          `"${image.source}"`,
           `"${image.altText || ''}"`,
           `"${(image.imgTagHtml || '').replace(/"/g, '""')}"`,
           `"${image.filename || ''}"`,
-          `"${image.imageType || ''}"`
+          `"${image.imageType || ''}"`,
+          `"${(image.sources || []).flatMap(source => source.candidates.map(candidate => candidate.url)).join(' ')}"`,
+          `"${image.dimensions || ''}"`,
+          `"${image.httpStatus ?? ''}"`,
+          `"${image.mimeType || ''}"`,
+          `"${image.byteSize ?? ''}"`,
+          `"${image.finalUrl || ''}"`,
+          `"${image.renderedWidth !== null ? `${image.renderedWidth}x${image.renderedHeight}` : ''}"`,
+          `"${image.wastedBytes ?? ''}"`,
+          `"${image.pageDepth ?? ''}"`,
+          `"${image.imageHost || ''}"`,
+          `"${image.thirdParty ?? ''}"`,
+          `"${image.discovery}"`,
+          `"${image.deviceProfile}"`
         ];
         csvRows.push(row.join(','));
       }
@@ -294,6 +487,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           pagesProcessed: job.pagesProcessed,
           totalPagesFound: job.totalPagesFound,
           imagesFound: job.imagesFound,
+          duplicatesCollapsed: job.duplicatesCollapsed,
+          failedPages: job.failedPages,
           currentPage: job.currentPage,
           error: job.error
         });
@@ -306,10 +501,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     };
 
-    simpleCrawlerService.addProgressListener(jobId, sendProgress);
+    crawlerService.addProgressListener(jobId, sendProgress);
 
     req.on('close', () => {
-      simpleCrawlerService.removeProgressListener(jobId);
+      crawlerService.removeProgressListener(jobId);
       res.end();
     });
   });
@@ -320,6 +515,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const jobs = await storage.getCrawlJobs();
       for (const job of jobs) {
         await storage.deleteCrawledImagesByJobId(job.id);
+        await storage.deleteCrawledPagesByJobId(job.id);
       }
       res.json({ success: true });
     } catch (error) {
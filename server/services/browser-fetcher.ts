@@ -0,0 +1,343 @@
+import fs from 'fs';
+import puppeteer, { type Browser, type Cookie, type CookieData, type HTTPRequest, type Page } from 'puppeteer';
+import type { CrawlCookie, DeviceProfile, LoginFlow } from '@shared/schema';
+import type { CrawlAuth } from './crawl-auth';
+import { toImageUrl } from './html-extractor';
+import { parseContentType } from './http';
+import { RedirectError, type FetchedPage, type PageFetcher, type RedirectGuard, type RenderedImage } from './page-fetcher';
+
+// Chromium used to render JavaScript; when unset, puppeteer's download or a system install is used
+const CHROMIUM_PATH = process.env.CHROMIUM_PATH || process.env.PUPPETEER_EXECUTABLE_PATH;
+
+const SYSTEM_CHROMIUM_PATHS = [
+  '/usr/bin/chromium',
+  '/usr/bin/chromium-browser',
+  '/usr/bin/google-chrome',
+  '/usr/bin/google-chrome-stable'
+];
+
+const BROWSER_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--no-first-run',
+  '--disable-gpu'
+];
+
+// Auto-scroll pacing; the step cap keeps infinite-scroll pages from running forever
+const SCROLL_STEP_DELAY = 250;
+const MAX_SCROLL_STEPS = 40;
+// Quiet period after scrolling before the DOM is read
+const NETWORK_QUIET_MS = 500;
+
+// Where a navigation's redirects were cut short, and why
+interface StoppedRedirect {
+  url: string;
+  redirectChain: string[];
+  // Status of the redirect that wasn't followed
+  status: number;
+  loop: boolean;
+}
+
+export interface BrowserFetchOptions {
+  autoScroll: boolean;
+  auth: CrawlAuth;
+}
+
+function bundledChromium(): string | null {
+  try {
+    return puppeteer.executablePath();
+  } catch {
+    return null;
+  }
+}
+
+export function findChromium(): string | null {
+  if (CHROMIUM_PATH && !fs.existsSync(CHROMIUM_PATH)) {
+    console.warn(`CHROMIUM_PATH ${CHROMIUM_PATH} does not exist; looking for another Chromium`);
+  }
+
+  const candidates = [CHROMIUM_PATH, bundledChromium(), ...SYSTEM_CHROMIUM_PATHS];
+  return candidates.find((path): path is string => !!path && fs.existsSync(path)) ?? null;
+}
+
+// Chromium marks domain cookies with a leading dot
+function toBrowserCookie(cookie: CrawlCookie): CookieData {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.hostOnly ? cookie.domain : `.${cookie.domain}`,
+    path: cookie.path,
+    secure: cookie.secure,
+    ...(cookie.expires !== null && { expires: cookie.expires })
+  };
+}
+
+function fromBrowserCookie(cookie: Cookie): CrawlCookie {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain.replace(/^\./, ''),
+    hostOnly: !cookie.domain.startsWith('.'),
+    path: cookie.path,
+    secure: cookie.secure,
+    expires: cookie.session || cookie.expires < 0 ? null : Math.floor(cookie.expires)
+  };
+}
+
+// Viewport and DPR are per tab, so every page is set up before it loads
+async function emulate(page: Page, profile: DeviceProfile): Promise<void> {
+  await page.setUserAgent(profile.userAgent);
+  await page.setViewport({
+    ...profile.viewport,
+    deviceScaleFactor: profile.deviceScaleFactor,
+    isMobile: profile.isMobile,
+    hasTouch: profile.isMobile
+  });
+}
+
+// Runs inside the page: scrolls a viewport at a time so lazy loaders and IntersectionObservers fire
+async function scrollThroughPage(stepDelay: number, maxSteps: number): Promise<void> {
+  for (let step = 0; step < maxSteps; step++) {
+    const before = window.scrollY;
+    window.scrollBy(0, window.innerHeight);
+    await new Promise(resolve => setTimeout(resolve, stepDelay));
+    // At the bottom, and nothing new was appended below it
+    if (window.scrollY === before) break;
+  }
+}
+
+// Runs inside the page, so it can't reference anything outside its own body. Each image comes
+// with the URL it displays and every URL its markup references: src, srcset and data-*
+// attributes (where lazy loaders keep the real URL), on the <img> and its <picture> sources
+function measureImages(): Array<[string, string[], RenderedImage]> {
+  const devicePixelRatio = window.devicePixelRatio || 1;
+
+  const resolve = (url: string) => {
+    try {
+      const resolved = new URL(url, document.baseURI);
+      return /^https?:$/.test(resolved.protocol) ? resolved.href : null;
+    } catch {
+      return null;
+    }
+  };
+  const referencedUrls = (img: HTMLImageElement): string[] => {
+    const picture = img.parentElement?.tagName === 'PICTURE' ? img.parentElement : null;
+    const elements = [img, ...(picture ? Array.from(picture.querySelectorAll('source')) : [])];
+    return elements
+      .flatMap(element => Array.from(element.attributes))
+      .filter(attribute => attribute.name === 'src' || attribute.name === 'srcset' || attribute.name.startsWith('data-'))
+      // srcset-style values list candidates; anything else is one URL, commas and all
+      .flatMap(attribute => attribute.name.endsWith('srcset') ? attribute.value.split(',') : [attribute.value])
+      .map(candidate => resolve(candidate.trim().split(/\s+/)[0]))
+      .filter((url): url is string => !!url);
+  };
+
+  return Array.from(document.querySelectorAll('img'))
+    .filter(img => !!img.currentSrc)
+    .map(img => {
+      const rect = img.getBoundingClientRect();
+      const timing = performance.getEntriesByName(img.currentSrc)[0] as PerformanceResourceTiming | undefined;
+      return [img.currentSrc, referencedUrls(img), {
+        naturalWidth: img.naturalWidth || null,
+        naturalHeight: img.naturalHeight || null,
+        renderedWidth: Math.round(rect.width),
+        renderedHeight: Math.round(rect.height),
+        devicePixelRatio,
+        byteSize: timing ? timing.encodedBodySize || timing.decodedBodySize || null : null
+      }];
+    });
+}
+
+// Keys measurements by every URL extraction may have settled on for the image, which isn't
+// necessarily the one the browser picked; a URL some image actually displays wins
+function keyRenderedImages(measured: Array<[string, string[], RenderedImage]>, pageUrl: string): Map<string, RenderedImage> {
+  const images = new Map<string, RenderedImage>();
+  for (const [, referenced, image] of measured) {
+    for (const url of referenced) images.set(toImageUrl(url, pageUrl), image);
+  }
+  for (const [currentSrc, , image] of measured) {
+    images.set(toImageUrl(currentSrc, pageUrl), image);
+  }
+  return images;
+}
+
+/**
+ * Renders pages in headless Chromium, one tab per page, so images inserted
+ * by scripts are extracted from the live DOM. Image requests are logged
+ * too, catching images that never appear in the DOM at all.
+ */
+export class BrowserPageFetcher implements PageFetcher {
+  readonly mode = 'browser';
+
+  private constructor(private browser: Browser, private options: BrowserFetchOptions) {}
+
+  static async launch(executablePath: string, options: BrowserFetchOptions): Promise<BrowserPageFetcher> {
+    const browser = await puppeteer.launch({ headless: true, executablePath, args: BROWSER_ARGS });
+    try {
+      if (options.auth.cookies.length > 0) {
+        await browser.setCookie(...options.auth.cookies.map(toBrowserCookie));
+      }
+    } catch (error) {
+      await browser.close();
+      throw error;
+    }
+    return new BrowserPageFetcher(browser, options);
+  }
+
+  // Fills in and submits a login form; the session cookies it sets are copied to the crawl's jar
+  async logIn(flow: LoginFlow, timeout: number, profile: DeviceProfile): Promise<void> {
+    const page = await this.browser.newPage();
+
+    try {
+      await emulate(page, profile);
+      await page.goto(flow.url, { waitUntil: 'networkidle2', timeout });
+      await page.type(flow.usernameSelector, flow.username);
+      await page.type(flow.passwordSelector, flow.password);
+      await Promise.all([
+        // Script-driven forms may log in without navigating
+        page.waitForNavigation({ waitUntil: 'networkidle2', timeout }).catch(() => {}),
+        page.click(flow.submitSelector)
+      ]);
+      if (flow.successSelector) {
+        await page.waitForSelector(flow.successSelector, { timeout });
+      }
+    } finally {
+      await page.close();
+    }
+
+    this.options.auth.setCookies((await this.browser.cookies()).map(fromBrowserCookie));
+  }
+
+  async fetch(url: string, timeout: number, profile: DeviceProfile, beforeRedirect?: RedirectGuard): Promise<FetchedPage> {
+    // The timeout covers loading, scrolling and waiting for the network to settle together
+    const deadline = Date.now() + timeout;
+    const page = await this.browser.newPage();
+    const networkImages = new Set<string>();
+    let stopped = null as StoppedRedirect | null;
+
+    // Images fetched by scripts (fetch(), new Image()) only show up by content type
+    page.on('request', request => {
+      if (request.resourceType() === 'image') networkImages.add(request.url());
+    });
+    page.on('response', response => {
+      if ((response.headers()['content-type'] || '').startsWith('image/')) networkImages.add(response.url());
+    });
+
+    // Redirects of the page itself are vetted hop by hop, as in static fetches: a loop or a
+    // declined hop aborts the navigation. Custom headers and basic auth only go to in-scope
+    // hosts, so they're added per request
+    const vetRedirect = async (request: HTTPRequest): Promise<boolean> => {
+      const previous = request.redirectChain();
+      if (previous.length === 0 || !request.isNavigationRequest() || request.frame() !== page.mainFrame()) {
+        return true;
+      }
+
+      const redirectChain = previous.map(redirect => redirect.url());
+      const loop = redirectChain.includes(request.url());
+      if (!loop && (!beforeRedirect || await beforeRedirect(request.url()))) return true;
+
+      stopped = {
+        url: request.url(),
+        redirectChain,
+        status: previous[previous.length - 1].response()?.status() ?? 0,
+        loop
+      };
+      return false;
+    };
+    await page.setRequestInterception(true);
+    page.on('request', request => {
+      const intercept = async () => {
+        const follow = await vetRedirect(request);
+        if (request.isInterceptResolutionHandled()) return;
+        if (!follow) {
+          await request.abort('blockedbyclient');
+          return;
+        }
+        const headers = this.options.auth.hasCredentials ? this.options.auth.credentialHeadersFor(request.url()) : {};
+        await request.continue(Object.keys(headers).length > 0 ? { headers: { ...request.headers(), ...headers } } : undefined);
+      };
+      // The tab may close while a request waits on the rate limiter
+      intercept().catch(() => {});
+    });
+
+    try {
+      await emulate(page, profile);
+      const response = await page.goto(url, { waitUntil: 'networkidle2', timeout }).catch(error => {
+        if (!stopped) throw error;
+        return null;
+      });
+      if (stopped?.loop) {
+        throw new RedirectError(`Redirect loop back to ${stopped.url}`, stopped.redirectChain, stopped.url);
+      }
+      if (stopped) {
+        return {
+          status: stopped.status,
+          ok: false,
+          finalUrl: stopped.url,
+          redirectChain: stopped.redirectChain,
+          contentType: null,
+          ttfb: null,
+          byteSize: null,
+          retryAfter: null,
+          html: '',
+          sourceHtml: '',
+          renderedImages: new Map(),
+          networkImages: []
+        };
+      }
+      if (!response) {
+        throw new Error(`No response loading ${url}`);
+      }
+
+      const timing = response.timing();
+      const metadata = {
+        status: response.status(),
+        finalUrl: response.url(),
+        redirectChain: response.request().redirectChain().map(request => request.url()),
+        contentType: parseContentType(response.headers()['content-type'] ?? null),
+        // Relative to the start of the last request in the redirect chain
+        ttfb: timing ? Math.round(timing.receiveHeadersEnd) : null
+      };
+
+      if (!response.ok()) {
+        return {
+          ...metadata,
+          ok: false,
+          byteSize: null,
+          retryAfter: response.headers()['retry-after'] ?? null,
+          html: '',
+          sourceHtml: '',
+          renderedImages: new Map(),
+          networkImages: []
+        };
+      }
+
+      if (this.options.autoScroll) {
+        await page.evaluate(scrollThroughPage, SCROLL_STEP_DELAY, MAX_SCROLL_STEPS);
+        // Pages that keep polling never go quiet; read them as they are
+        await page.waitForNetworkIdle({ idleTime: NETWORK_QUIET_MS, timeout: Math.max(deadline - Date.now(), 1) }).catch(() => {});
+      }
+
+      const html = await page.content();
+      const sourceHtml = await response.text().catch(() => html);
+      return {
+        ...metadata,
+        ok: true,
+        byteSize: Buffer.byteLength(sourceHtml),
+        retryAfter: null,
+        html,
+        sourceHtml,
+        renderedImages: keyRenderedImages(await page.evaluate(measureImages), metadata.finalUrl),
+        networkImages: Array.from(networkImages).filter(imageUrl => /^https?:/.test(imageUrl))
+      };
+    } finally {
+      await page.close();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.browser.close();
+  }
+}
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { CrawlJob } from '@shared/schema';
+import { CrawlAuth, redactCrawlJob } from './crawl-auth';
+
+const credentials: Pick<CrawlJob, 'customHeaders' | 'cookies' | 'basicAuth'> = {
+  customHeaders: { 'X-Api-Key': 'secret-key' },
+  cookies: [{ name: 'session', value: 'abc123', domain: 'example.com', hostOnly: false, path: '/', secure: true, expires: null }],
+  basicAuth: { username: 'crawler', password: 'hunter2' }
+};
+
+const isInScope = (url: string) => new URL(url).hostname.endsWith('example.com');
+
+describe('redactCrawlJob', () => {
+  it('masks every secret and keeps the rest', () => {
+    const job = {
+      id: 'job-1',
+      targetUrl: 'https://example.com/',
+      ...credentials,
+      loginFlow: {
+        url: 'https://example.com/login',
+        usernameSelector: '#user',
+        passwordSelector: '#pass',
+        submitSelector: 'button',
+        username: 'crawler',
+        password: 'hunter2',
+        successSelector: null
+      }
+    } as CrawlJob;
+
+    const redacted = redactCrawlJob(job);
+    assert.doesNotMatch(JSON.stringify(redacted), /secret-key|abc123|hunter2/);
+    assert.deepEqual(redacted.customHeaders, { 'X-Api-Key': '[redacted]' });
+    assert.equal(redacted.cookies[0].name, 'session');
+    assert.equal(redacted.basicAuth?.username, 'crawler');
+    assert.equal(redacted.loginFlow?.username, 'crawler');
+    assert.equal(redacted.targetUrl, job.targetUrl);
+    assert.equal(job.basicAuth?.password, 'hunter2');
+  });
+
+  it('leaves jobs without credentials alone', () => {
+    const job = { id: 'job-2', customHeaders: {}, cookies: [], basicAuth: null, loginFlow: null } as unknown as CrawlJob;
+    assert.deepEqual(redactCrawlJob(job), job);
+  });
+});
+
+describe('CrawlAuth', () => {
+  it('sends custom headers and basic auth only to in-scope hosts', () => {
+    const auth = new CrawlAuth(credentials, isInScope);
+    assert.deepEqual(auth.headersFor('https://shop.example.com/'), {
+      'X-Api-Key': 'secret-key',
+      'Authorization': `Basic ${Buffer.from('crawler:hunter2').toString('base64')}`,
+      'Cookie': 'session=abc123'
+    });
+    assert.deepEqual(auth.headersFor('https://cdn.other.net/a.png'), {});
+  });
+
+  it('keeps secure cookies off plain HTTP', () => {
+    const auth = new CrawlAuth(credentials, isInScope);
+    assert.equal(auth.headersFor('http://example.com/')['Cookie'], undefined);
+  });
+
+  it('updates the jar from Set-Cookie responses', () => {
+    const auth = new CrawlAuth(credentials, isInScope);
+    const response = new Response(null, {
+      headers: [
+        ['Set-Cookie', 'session=rotated; Domain=example.com; Path=/; Secure'],
+        ['Set-Cookie', 'cart=1; Path=/shop'],
+        ['Set-Cookie', 'tracker=x; Domain=other.net']
+      ]
+    });
+    auth.storeCookies('https://example.com/shop/item', response);
+
+    assert.equal(auth.headersFor('https://example.com/shop/item')['Cookie'], 'cart=1; session=rotated');
+    assert.equal(auth.headersFor('https://example.com/about')['Cookie'], 'session=rotated');
+    assert.equal(auth.headersFor('https://www.example.com/shop/')['Cookie'], 'session=rotated');
+  });
+
+  it('drops cookies the server expires', () => {
+    const auth = new CrawlAuth(credentials, isInScope);
+    auth.storeCookies('https://example.com/', new Response(null, {
+      headers: { 'Set-Cookie': 'session=; Domain=example.com; Path=/; Max-Age=0' }
+    }));
+    assert.equal(auth.headersFor('https://example.com/')['Cookie'], undefined);
+  });
+});
@@ -0,0 +1,162 @@
+import type { CrawlCookie, CrawlJob } from '@shared/schema';
+
+const REDACTED = '[redacted]';
+
+function domainMatches(hostname: string, cookie: CrawlCookie): boolean {
+  return hostname === cookie.domain || (!cookie.hostOnly && hostname.endsWith(`.${cookie.domain}`));
+}
+
+function pathMatches(pathname: string, cookiePath: string): boolean {
+  return pathname === cookiePath
+    || (pathname.startsWith(cookiePath) && (cookiePath.endsWith('/') || pathname[cookiePath.length] === '/'));
+}
+
+// RFC 6265 default-path: the request path up to its last "/"
+function defaultPath(url: URL): string {
+  const lastSlash = url.pathname.lastIndexOf('/');
+  return lastSlash > 0 ? url.pathname.slice(0, lastSlash) : '/';
+}
+
+function parseSetCookie(header: string, url: URL): CrawlCookie | null {
+  const [pair, ...attributes] = header.split(';');
+  const separator = pair.indexOf('=');
+  if (separator <= 0) return null;
+
+  const cookie: CrawlCookie = {
+    name: pair.slice(0, separator).trim(),
+    value: pair.slice(separator + 1).trim(),
+    domain: url.hostname,
+    hostOnly: true,
+    path: defaultPath(url),
+    secure: false,
+    expires: null
+  };
+
+  for (const attribute of attributes) {
+    const [rawKey, ...rawValue] = attribute.split('=');
+    const key = rawKey.trim().toLowerCase();
+    const value = rawValue.join('=').trim();
+
+    if (key === 'domain' && value) {
+      const domain = value.replace(/^\./, '').toLowerCase();
+      // A server may only set cookies for its own domain
+      if (url.hostname !== domain && !url.hostname.endsWith(`.${domain}`)) return null;
+      cookie.domain = domain;
+      cookie.hostOnly = false;
+    } else if (key === 'path' && value.startsWith('/')) {
+      cookie.path = value;
+    } else if (key === 'secure') {
+      cookie.secure = true;
+    } else if (key === 'max-age' && /^-?\d+$/.test(value)) {
+      cookie.expires = Math.floor(Date.now() / 1000) + parseInt(value, 10);
+    } else if (key === 'expires' && cookie.expires === null) {
+      const date = Date.parse(value);
+      if (!Number.isNaN(date)) cookie.expires = Math.floor(date / 1000);
+    }
+  }
+
+  return cookie;
+}
+
+/**
+ * A crawl's credentials. Custom headers and basic auth only go to in-scope
+ * hosts, so third-party CDNs never see them; cookies go wherever their
+ * domain and path match, and Set-Cookie responses update the jar so a
+ * session the server rotates keeps working.
+ */
+export class CrawlAuth {
+  private jar: CrawlCookie[];
+
+  constructor(
+    private job: Pick<CrawlJob, 'customHeaders' | 'cookies' | 'basicAuth'>,
+    private isInScope: (url: string) => boolean
+  ) {
+    this.jar = [...job.cookies];
+  }
+
+  get cookies(): CrawlCookie[] {
+    return this.jar;
+  }
+
+  // Whether any request needs headers beyond the cookie jar's
+  get hasCredentials(): boolean {
+    return Object.keys(this.job.customHeaders).length > 0 || !!this.job.basicAuth;
+  }
+
+  // Custom headers and Authorization, without cookies
+  credentialHeadersFor(url: string): Record<string, string> {
+    if (!this.isInScope(url)) return {};
+
+    const headers = { ...this.job.customHeaders };
+    if (this.job.basicAuth) {
+      const { username, password } = this.job.basicAuth;
+      headers['Authorization'] = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+    }
+    return headers;
+  }
+
+  headersFor(url: string): Record<string, string> {
+    const headers = this.credentialHeadersFor(url);
+    const cookie = this.cookiesFor(url).map(entry => `${entry.name}=${entry.value}`).join('; ');
+    if (cookie) headers['Cookie'] = cookie;
+    return headers;
+  }
+
+  storeCookies(url: string, response: Response): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return;
+    }
+
+    const cookies = response.headers.getSetCookie()
+      .map(header => parseSetCookie(header, parsed))
+      .filter((cookie): cookie is CrawlCookie => !!cookie);
+    this.setCookies(cookies);
+  }
+
+  // Replaces cookies with the same name, domain and path; expired ones are removed
+  setCookies(cookies: CrawlCookie[]): void {
+    const now = Date.now() / 1000;
+    for (const cookie of cookies) {
+      this.jar = this.jar.filter(entry =>
+        entry.name !== cookie.name || entry.domain !== cookie.domain || entry.path !== cookie.path
+      );
+      if (cookie.expires === null || cookie.expires > now) {
+        this.jar.push(cookie);
+      }
+    }
+  }
+
+  private cookiesFor(url: string): CrawlCookie[] {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return [];
+    }
+
+    const now = Date.now() / 1000;
+    return this.jar
+      .filter(cookie =>
+        domainMatches(parsed.hostname, cookie)
+        && pathMatches(parsed.pathname, cookie.path)
+        && (!cookie.secure || parsed.protocol === 'https:')
+        && (cookie.expires === null || cookie.expires > now)
+      )
+      // RFC 6265: longer paths first
+      .sort((a, b) => b.path.length - a.path.length);
+  }
+}
+
+// Jobs leave the server with header values, cookie values and passwords masked
+export function redactCrawlJob(job: CrawlJob): CrawlJob {
+  return {
+    ...job,
+    customHeaders: Object.fromEntries(Object.keys(job.customHeaders).map(name => [name, REDACTED])),
+    cookies: job.cookies.map(cookie => ({ ...cookie, value: REDACTED })),
+    basicAuth: job.basicAuth && { ...job.basicAuth, password: REDACTED },
+    loginFlow: job.loginFlow && { ...job.loginFlow, password: REDACTED }
+  };
+}
@@ -0,0 +1,52 @@
+import { getDomain } from 'tldts';
+import type { CrawlJob } from '@shared/schema';
+
+const HTTP_PROTOCOLS = ['http:', 'https:'];
+
+export interface CrawlScope {
+  // Whether pages and stylesheets at this URL may be fetched
+  contains: (url: string) => boolean;
+  // In scope, or on the start page's registrable domain; anything else is a third-party host
+  isFirstParty: (url: string) => boolean;
+}
+
+// Hosts without a public suffix (IP addresses, localhost) stand for themselves
+function registrableDomain(hostname: string): string {
+  return getDomain(hostname) ?? hostname;
+}
+
+function parseHttpUrl(url: string): URL | null {
+  try {
+    const parsed = new URL(url);
+    return HTTP_PROTOCOLS.includes(parsed.protocol) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * "origin" keeps the crawl on the start page's scheme, host and port,
+ * "domain" allows every subdomain of its registrable domain over http or
+ * https, and "hosts" adds the job's allowed hosts to the start page's own.
+ */
+export function createCrawlScope(job: Pick<CrawlJob, 'targetUrl' | 'scope' | 'allowedHosts'>): CrawlScope {
+  const target = new URL(job.targetUrl);
+  const domain = registrableDomain(target.hostname);
+  const hosts = new Set([target.hostname, ...job.allowedHosts.map(host => host.toLowerCase())]);
+
+  const contains = (url: string) => {
+    const parsed = parseHttpUrl(url);
+    if (!parsed) return false;
+
+    if (job.scope === 'domain') return registrableDomain(parsed.hostname) === domain;
+    if (job.scope === 'hosts') return hosts.has(parsed.hostname);
+    return parsed.origin === target.origin;
+  };
+
+  const isFirstParty = (url: string) => {
+    const parsed = parseHttpUrl(url);
+    return !!parsed && (contains(url) || registrableDomain(parsed.hostname) === domain);
+  };
+
+  return { contains, isFirstParty };
+}
@@ -1,241 +1,841 @@
-import puppeteer from 'puppeteer';
 import { storage } from '../storage';
-import { type CrawlJob } from '@shared/schema';
-import { EventEmitter } from 'events';
+import { DEVICE_PROFILES, type CrawlJob, type CrawledImage, type DeviceProfileName, type ImageDiscoveryMethod, type InsertCrawledPage, type PageAttempt, type PageOutcome } from '@shared/schema';
+import { parseHtml, extractImages, extractLinks, extractCanonicalUrl, extractStylesheetUrls, extractManifestUrl, cssReferenceToImage, manifestIconToImage, unreferencedNetworkImages, type ExtractedImage, type ParsedPage } from './html-extractor';
+import { StylesheetLoader } from './css-extractor';
+import { ManifestLoader } from './manifest-extractor';
+import { storeInlineReferences, type InlineImage } from './inline-images';
+import { probeImage, readImageSize } from './image-probe';
+import { estimateWastedBytes } from './reports';
+import { parseRetryAfter } from './http';
+import { RedirectError, createPageFetcher, type FetchedPage, type RedirectGuard } from './page-fetcher';
+import { RetryPolicy, classifyError, classifyStatus, type FetchFailure } from './retry-policy';
+import { HostRateLimiter } from './rate-limiter';
+import { RobotsLoader } from './robots';
+import { SitemapLoader } from './sitemap';
+import { createUrlNormalizer, type UrlNormalizer } from './url-normalizer';
+import { createCrawlScope } from './crawl-scope';
+import { CrawlAuth } from './crawl-auth';
+import { createUrlFilter } from '@shared/url-patterns';
 
-export class CrawlerService extends EventEmitter {
-  private activeCrawls: Map<string, boolean> = new Map();
+// Parallel requests during the image probe phase
+const PROBE_CONCURRENCY = 4;
 
-  async startCrawl(jobId: string): Promise<void> {
-    if (this.activeCrawls.get(jobId)) {
-      throw new Error('Crawl already in progress');
-    }
+// Longest Retry-After we wait out before retrying anyway
+const MAX_RETRY_AFTER = 5 * 60 * 1000;
 
-    const job = await storage.getCrawlJob(jobId);
-    if (!job) {
-      throw new Error('Job not found');
-    }
+interface CrawlProgress {
+  status: string;
+  progress: number;
+  pagesProcessed: number;
+  totalPagesFound: number;
+  imagesFound: number;
+  duplicatesCollapsed: number;
+  failedPages: number;
+  currentPage: string | null;
+  error: string | null;
+}
+
+// Where a crawl stands, rebuilt from the stored frontier whenever a crawl starts or resumes
+interface CrawlFrontier {
+  visitedUrls: Set<string>;
+  urlsToVisit: string[];
+  // Every URL in the stored frontier whatever its state, for O(1) dedupe
+  knownUrls: Set<string>;
+  duplicateUrls: Set<string>;
+  // Link depth of every known URL, counted from the seed it was reached from
+  depths: Map<string, number>;
+  // Page each linked URL was first found on
+  referrers: Map<string, string>;
+  pagesProcessed: number;
+  totalImages: number;
+  failedPages: number;
+}
+
+type StopRequest = 'pause' | 'cancel';
 
-    this.activeCrawls.set(jobId, true);
-    
-    // Update job status to running
-    await storage.updateCrawlJob(jobId, { status: 'running' });
-    this.emit('progress', jobId, { status: 'running' });
+class CrawlerService {
+  private stopRequests = new Map<string, StopRequest>();
+  private progressListeners = new Map<string, (progress: CrawlProgress) => void>();
 
+  async startCrawl(jobId: string): Promise<void> {
     try {
+      const job = await storage.getCrawlJob(jobId);
+      if (!job) {
+        throw new Error('Job not found');
+      }
+
       await this.performCrawl(job);
-      await storage.updateCrawlJob(jobId, { 
-        status: 'completed', 
-        completedAt: new Date(),
-        progress: 100 
-      });
-      this.emit('progress', jobId, { status: 'completed', progress: 100 });
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      await storage.updateCrawlJob(jobId, { 
-        status: 'failed', 
-        error: errorMessage,
-        completedAt: new Date() 
+      console.error('Crawl error:', error);
+      await this.discardFrontier(jobId);
+      this.clearStopRequest(jobId);
+      await storage.updateCrawlJob(jobId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: new Date()
       });
-      this.emit('progress', jobId, { status: 'failed', error: errorMessage });
-    } finally {
-      this.activeCrawls.delete(jobId);
+      this.emitProgress(jobId, {
+        status: 'failed',
+        progress: 0,
+        pagesProcessed: 0,
+        totalPagesFound: 0,
+        imagesFound: 0,
+        duplicatesCollapsed: 0,
+        failedPages: 0,
+        currentPage: null,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // The crawl loop checks for these between pages
+  requestStop(jobId: string, request: StopRequest): void {
+    this.stopRequests.set(jobId, request);
+  }
+
+  clearStopRequest(jobId: string): void {
+    this.stopRequests.delete(jobId);
+  }
+
+  async discardFrontier(jobId: string): Promise<void> {
+    await storage.deleteFrontierUrls(jobId);
+  }
+
+  private async loadFrontier(job: CrawlJob, seed: () => Promise<string[]>): Promise<CrawlFrontier> {
+    const entries = await storage.getFrontierUrls(job.id);
+    if (entries.length === 0) {
+      const seeds = await seed();
+      await storage.addFrontierUrls(job.id, seeds, 0);
+      return {
+        visitedUrls: new Set(),
+        urlsToVisit: seeds,
+        knownUrls: new Set(seeds),
+        duplicateUrls: new Set(),
+        depths: new Map(seeds.map(url => [url, 0])),
+        referrers: new Map(),
+        pagesProcessed: 0,
+        totalImages: 0,
+        failedPages: 0
+      };
+    }
+
+    const frontier: CrawlFrontier = {
+      visitedUrls: new Set(),
+      urlsToVisit: [],
+      knownUrls: new Set(),
+      duplicateUrls: new Set(),
+      depths: new Map(),
+      referrers: new Map(),
+      pagesProcessed: 0,
+      totalImages: 0,
+      failedPages: 0
+    };
+    for (const entry of entries) {
+      frontier.knownUrls.add(entry.url);
+      frontier.depths.set(entry.url, entry.depth);
+      if (entry.referrer) frontier.referrers.set(entry.url, entry.referrer);
+      if (entry.state === 'duplicate') {
+        frontier.duplicateUrls.add(entry.url);
+      } else if (entry.state === 'fetching') {
+        // Interrupted mid-page: drop whatever it saved and crawl it again
+        await storage.deleteCrawledImagesByPage(job.id, entry.url);
+        await storage.updateFrontierUrl(job.id, entry.url, 'queued');
+        frontier.urlsToVisit.push(entry.url);
+      } else if (entry.state === 'queued') {
+        frontier.urlsToVisit.push(entry.url);
+      } else {
+        frontier.visitedUrls.add(entry.url);
+        if (entry.state === 'visited') frontier.pagesProcessed++;
+        else if (entry.state === 'failed') frontier.failedPages++;
+      }
     }
+
+    // Counted from storage rather than the job record, which may lag behind a crash
+    frontier.totalImages = (await storage.getCrawledImagesByJobId(job.id)).length;
+    return frontier;
+  }
+
+  // Start page plus in-scope sitemap URLs; image sitemap entries are saved for the comparison report.
+  // The start page is always crawled, even when the URL patterns would exclude it.
+  private async seedFrontier(
+    job: CrawlJob,
+    robots: RobotsLoader,
+    sitemaps: SitemapLoader,
+    isInScope: (url: string) => boolean,
+    normalizeUrl: UrlNormalizer
+  ): Promise<string[]> {
+    const seeds = job.sitemapMode === 'only' ? [] : [normalizeUrl(job.targetUrl)];
+    if (job.sitemapMode === 'off') return seeds;
+
+    const { sitemaps: robotsSitemaps } = await robots.load(job.targetUrl);
+    const entries = (await sitemaps.load(job.targetUrl, robotsSitemaps))
+      .filter(entry => isInScope(entry.url));
+
+    await storage.createSitemapImages(entries.flatMap(entry =>
+      entry.images.map(imageUrl => ({ jobId: job.id, pageUrl: normalizeUrl(entry.url), imageUrl }))
+    ));
+
+    if (job.sitemapMode === 'only' && entries.length === 0) {
+      console.warn(`Sitemap-only crawl ${job.id} found no sitemap URLs for ${job.targetUrl}`);
+    }
+    return Array.from(new Set([...seeds, ...entries.map(entry => normalizeUrl(entry.url))]));
   }
 
   private async performCrawl(job: CrawlJob): Promise<void> {
-    const browser = await puppeteer.launch({
-      headless: true,
-      executablePath: '/nix/store/zi4f80l169xlmivz8vja8wlphq74qqk0-chromium-125.0.6422.141/bin/chromium',
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-        '--single-process',
-        '--disable-gpu'
-      ]
+    await storage.updateCrawlJob(job.id, { status: 'running' });
+
+    const timeout = job.timeout || 60000;
+    const limiter = new HostRateLimiter(job.requestsPerSecond);
+    const scope = createCrawlScope(job);
+    const auth = new CrawlAuth(job, scope.contains);
+    // Also loaded when robots.txt isn't obeyed, for its Sitemap: lines, but its Crawl-delay is then ignored
+    const robots = new RobotsLoader(timeout, limiter, auth, job.respectRobotsTxt);
+    const sitemaps = new SitemapLoader(timeout, limiter, auth);
+    const matchesPatterns = createUrlFilter(job);
+    const isInScope = (url: string) => scope.contains(url) && matchesPatterns(url);
+    const normalizeUrl = createUrlNormalizer(job.urlNormalization);
+    const frontier = await this.loadFrontier(job, () => this.seedFrontier(job, robots, sitemaps, isInScope, normalizeUrl));
+
+    const { visitedUrls, urlsToVisit, knownUrls, duplicateUrls, depths, referrers } = frontier;
+    let totalImages = frontier.totalImages;
+    let pagesProcessed = frontier.pagesProcessed;
+    let failedPages = frontier.failedPages;
+    const retryPolicy = new RetryPolicy(job.maxAttempts);
+    const stylesheets = new StylesheetLoader(scope.contains, timeout, limiter, auth);
+    const manifests = new ManifestLoader(scope.contains, timeout, limiter, auth);
+    const stopIfRequested = async (): Promise<boolean> => {
+      const request = this.stopRequests.get(job.id);
+      if (!request) return false;
+
+      await this.stopCrawl(job, request, { ...frontier, pagesProcessed, totalImages, failedPages });
+      return true;
+    };
+    // Records a URL that stands for a page already in the frontier, so it is never fetched
+    const markDuplicate = async (url: string, depth: number) => {
+      duplicateUrls.add(url);
+      if (knownUrls.has(url)) {
+        await storage.updateFrontierUrl(job.id, url, 'duplicate');
+      } else {
+        knownUrls.add(url);
+        await storage.addFrontierUrls(job.id, [url], depth, 'duplicate');
+      }
+    };
+
+    this.emitProgress(job.id, {
+      status: 'running',
+      progress: Math.round((pagesProcessed / job.maxPages) * 100),
+      pagesProcessed,
+      totalPagesFound: visitedUrls.size + urlsToVisit.length,
+      imagesFound: totalImages,
+      duplicatesCollapsed: duplicateUrls.size,
+      failedPages,
+      currentPage: urlsToVisit[0] ?? null,
+      error: null
     });
 
-    const page = await browser.newPage();
-    page.setDefaultNavigationTimeout(job.timeout);
+    const fetcher = await createPageFetcher(job, auth);
+    await storage.updateCrawlJob(job.id, { fetchMode: fetcher.mode });
 
     try {
-      const origin = new URL(job.targetUrl).origin;
-      const toVisit = [job.targetUrl];
-      const visited = new Set<string>();
-      const startTime = Date.now();
+      // Pages claimed by a worker but not finished yet; they count towards maxPages
+      let pagesInFlight = 0;
+      let workerError: unknown = null;
+      const idleWorkers: Array<() => void> = [];
+      const wakeIdleWorkers = () => idleWorkers.splice(0).forEach(wake => wake());
 
-      await storage.updateCrawlJob(job.id, { totalPagesFound: 1 });
-      this.emit('progress', job.id, { totalPagesFound: 1 });
+      // Extracts a fetched page's images, with its stylesheets and manifest, and stores them
+      const saveImages = async (
+        page: ParsedPage,
+        response: FetchedPage,
+        pageUrl: string,
+        depth: number,
+        deviceProfile: DeviceProfileName
+      ): Promise<number> => {
+        const extractionOptions = {
+          includeCssBackgrounds: job.includeCssBackgrounds,
+          lazyLoadAttributes: job.lazyLoadAttributes
+        };
+        const images = extractImages(page, extractionOptions);
 
-      while (toVisit.length > 0 && visited.size < job.maxPages) {
-        const url = toVisit.shift()!;
-        if (visited.has(url)) continue;
-        
-        visited.add(url);
-        
-        try {
-          await page.goto(url, { waitUntil: 'networkidle2' });
-          
-          // Update progress
-          const progress = Math.floor((visited.size / Math.min(job.maxPages, toVisit.length + visited.size)) * 100);
-          const elapsedSeconds = Math.floor((Date.now() - startTime) / 1000);
-          
-          await storage.updateCrawlJob(job.id, {
-            currentPage: url,
-            pagesProcessed: visited.size,
-            progress
+        // Linked stylesheets are fetched once per crawl and attributed to every page using them
+        if (job.includeCssBackgrounds) {
+          for (const stylesheetUrl of extractStylesheetUrls(page)) {
+            const references = await stylesheets.load(stylesheetUrl);
+            images.push(...references.map(cssReferenceToImage));
+          }
+        }
+
+        const manifestUrl = extractManifestUrl(page);
+        if (manifestUrl) {
+          const icons = await manifests.load(manifestUrl);
+          images.push(...icons.map(manifestIconToImage));
+        }
+
+        // Rendered pages: tell images in the served HTML from ones scripts added or only requested
+        const servedImageUrls = response.sourceHtml === response.html ? null : new Set(
+          extractImages(parseHtml(response.sourceHtml, response.finalUrl), extractionOptions).map(image => image.imageUrl)
+        );
+        images.push(...unreferencedNetworkImages(response.networkImages, images));
+        const getDiscovery = (image: ExtractedImage): ImageDiscoveryMethod => {
+          if (image.source === 'network') return 'network';
+          // Stylesheet and manifest images come from their own fetches, not the page's markup
+          const fromPage = !image.stylesheetUrl && image.source !== 'manifest';
+          if (servedImageUrls && fromPage && !servedImageUrls.has(image.imageUrl)) {
+            return 'dom';
+          }
+          return 'html';
+        };
+
+        // Save images
+        let savedImages = 0;
+        for (const extracted of images) {
+          console.log('Crawler: Processing image:', {
+            originalUrl: extracted.imageUrl.substring(0, 200),
+            pageUrl,
+            isNextJs: extracted.imageUrl.includes('/_next/image'),
+            htmlSample: extracted.html.substring(0, 100)
           });
           
-          this.emit('progress', job.id, {
-            currentPage: url,
-            pagesProcessed: visited.size,
-            progress,
-            elapsedTime: `${elapsedSeconds}s`
+          // data: URIs and inline SVGs, wherever the image references them, are stored by hash rather than inline
+          const stored = await storeInlineReferences(extracted);
+          if (!stored) continue;
+          const { image: imageData, inline } = stored;
+          const imageUrl = imageData.imageUrl;
+          // Only browser fetches measure images, and only <img> elements
+          const rendered = inline ? undefined : response.renderedImages.get(imageUrl);
+          const byteSize = inline?.byteSize ?? rendered?.byteSize;
+          const renderedDimensions = rendered?.naturalWidth && rendered.naturalHeight
+            ? `${rendered.naturalWidth}x${rendered.naturalHeight}`
+            : null;
+          
+          await storage.createCrawledImage({
+            jobId: job.id,
+            pageUrl,
+            pageDepth: depth,
+            imageUrl,
+            imageHost: inline ? null : this.getHost(imageUrl),
+            thirdParty: inline ? null : !scope.isFirstParty(imageUrl),
+            source: imageData.source,
+            discovery: getDiscovery(extracted),
+            deviceProfile,
+            altText: imageData.altText,
+            imgTagHtml: imageData.html,
+            imageType: inline ? this.getImageTypeFromMime(inline.mimeType) : this.getImageType(imageUrl),
+            filename: inline ? this.getInlineFilename(inline) : this.getFilename(imageUrl),
+            dimensions: imageData.dimensions || renderedDimensions,
+            sources: imageData.sources,
+            lazyLoadSource: imageData.lazyLoadSource,
+            placeholderUrl: imageData.placeholderUrl,
+            cssSelector: imageData.cssSelector,
+            stylesheetUrl: imageData.stylesheetUrl,
+            contentHash: inline?.contentHash,
+            byteSize,
+            mimeType: inline?.mimeType,
+            naturalWidth: rendered?.naturalWidth,
+            naturalHeight: rendered?.naturalHeight,
+            renderedWidth: rendered?.renderedWidth,
+            renderedHeight: rendered?.renderedHeight,
+            devicePixelRatio: rendered?.devicePixelRatio,
+            wastedBytes: rendered ? estimateWastedBytes({ ...rendered, byteSize: byteSize ?? null }) : null
           });
+          savedImages++;
+        }
+
+        return savedImages;
+      };
+
+      // Whether a page may be crawled where its redirects took it, by the same rules as links
+      const mayFollowRedirect = async (currentUrl: string, depth: number, targetUrl: string): Promise<boolean> => {
+        const pageUrl = normalizeUrl(targetUrl);
+        if (pageUrl === currentUrl) return true;
+
+        // The start page is crawled whatever the URL patterns say, so its target is too
+        if (!(depth === 0 ? scope.contains(pageUrl) : isInScope(pageUrl))) {
+          console.log(`Skipping ${currentUrl}: redirects out of scope to ${pageUrl}`);
+          return false;
+        }
+        if (job.respectRobotsTxt && !(await robots.load(pageUrl)).isAllowed(pageUrl)) {
+          console.log(`Skipping ${currentUrl}: redirects to ${pageUrl}, disallowed by robots.txt`);
+          return false;
+        }
+        return true;
+      };
+
+      // Every hop of a redirect chain is checked and paced like the page itself
+      const redirectGuard = (currentUrl: string, depth: number): RedirectGuard => async (url) => {
+        if (!(await mayFollowRedirect(currentUrl, depth, url))) return false;
+        await limiter.wait(url);
+        return true;
+      };
+
+      // Compare crawls fetch each page again as the second device and keep only its images,
+      // under the first device's page URL even when the second is redirected elsewhere (m.example.com).
+      // A failed comparison doesn't fail the page; its error is logged with it instead
+      const fetchComparison = async (
+        pageUrl: string,
+        depth: number,
+        deviceProfile: DeviceProfileName
+      ): Promise<{ savedImages: number; error: string | null }> => {
+        const fail = (error: string) => {
+          console.warn(`Failed to fetch ${pageUrl} as ${deviceProfile}: ${error}`);
+          return { savedImages: 0, error };
+        };
+
+        try {
+          await limiter.wait(pageUrl);
+          const response = await fetcher.fetch(pageUrl, timeout, DEVICE_PROFILES[deviceProfile], redirectGuard(pageUrl, depth));
+          if (!(await mayFollowRedirect(pageUrl, depth, response.finalUrl))) {
+            return fail(`Redirected to ${response.finalUrl}, which the crawl may not fetch`);
+          }
+          if (!response.ok) {
+            return fail(`HTTP ${response.status}`);
+          }
+          const page = parseHtml(response.html, response.finalUrl);
+          return { savedImages: await saveImages(page, response, pageUrl, depth, deviceProfile), error: null };
+        } catch (error) {
+          return fail(error instanceof Error ? error.message : String(error));
+        }
+      };
+
+      // Written after the page's frontier state, so a page interrupted mid-crawl isn't logged twice
+      const recordPage = (page: Omit<InsertCrawledPage, 'jobId'>) => storage.createCrawledPage({ jobId: job.id, ...page });
+
+      // Extracts a fetched page's images and links; canonical duplicates of another page are only marked
+      const processPage = async (
+        currentUrl: string,
+        depth: number,
+        response: FetchedPage
+      ): Promise<{ outcome: 'crawled' | 'duplicate'; comparisonError: string | null }> => {
+        // A redirected page is crawled as the page it landed on, and the URL redirected
+        // from is collapsed onto it like any other duplicate spelling
+        const pageUrl = normalizeUrl(response.finalUrl);
+        if (pageUrl !== currentUrl) {
+          if (visitedUrls.has(pageUrl) || duplicateUrls.has(pageUrl)) {
+            console.log(`Skipping ${currentUrl}: redirects to ${pageUrl}, already crawled`);
+            visitedUrls.delete(currentUrl);
+            await markDuplicate(currentUrl, depth);
+            return { outcome: 'duplicate', comparisonError: null };
+          }
+
+          visitedUrls.add(pageUrl);
+          if (knownUrls.has(pageUrl)) {
+            await storage.updateFrontierUrl(job.id, pageUrl, 'fetching');
+          } else {
+            knownUrls.add(pageUrl);
+            await storage.addFrontierUrls(job.id, [pageUrl], depth, 'fetching', referrers.get(currentUrl) ?? null);
+          }
+          visitedUrls.delete(currentUrl);
+          await markDuplicate(currentUrl, depth);
+        }
+
+        const page = parseHtml(response.html, response.finalUrl);
+
+        // Another URL for the same page: skip it if that page is already crawled or claimed,
+        // otherwise crawl this one and keep the canonical URL from being fetched too
+        const canonical = job.urlNormalization.honorCanonical ? extractCanonicalUrl(page) : null;
+        const canonicalUrl = canonical && scope.contains(canonical) ? normalizeUrl(canonical) : null;
+        if (canonicalUrl && canonicalUrl !== pageUrl) {
+          if (visitedUrls.has(canonicalUrl) || duplicateUrls.has(canonicalUrl)) {
+            console.log(`Skipping ${pageUrl}: duplicate of canonical ${canonicalUrl}`);
+            visitedUrls.delete(pageUrl);
+            await markDuplicate(pageUrl, depth);
+            return { outcome: 'duplicate', comparisonError: null };
+          }
+          await markDuplicate(canonicalUrl, depth);
+        }
+        
+        // Added after the awaits, so parallel pages don't overwrite each other's counts
+        let savedImages = await saveImages(page, response, pageUrl, depth, job.deviceProfile);
+        let comparisonError: string | null = null;
+        if (job.compareProfile) {
+          const comparison = await fetchComparison(pageUrl, depth, job.compareProfile);
+          savedImages += comparison.savedImages;
+          comparisonError = comparison.error;
+        }
+        totalImages += savedImages;
+        
+        // Extract in-scope links for further crawling; sitemap-only crawls don't follow links,
+        // and nothing is followed past the depth limit
+        const followLinks = job.sitemapMode !== 'only' && (job.maxDepth === null || depth < job.maxDepth);
+        const links = followLinks ? extractLinks(page, scope.contains, { normalize: normalizeUrl, filter: matchesPatterns }) : [];
+        const newUrls: string[] = [];
+        const variants: string[] = [];
+        for (const link of links) {
+          // A spelling that normalizes to another URL is collapsed onto it
+          if (link.href !== link.url && !knownUrls.has(link.href)) {
+            knownUrls.add(link.href);
+            duplicateUrls.add(link.href);
+            variants.push(link.href);
+          }
+          if (!knownUrls.has(link.url)) {
+            knownUrls.add(link.url);
+            depths.set(link.url, depth + 1);
+            referrers.set(link.url, pageUrl);
+            newUrls.push(link.url);
+          }
+        }
+        urlsToVisit.push(...newUrls);
+        await storage.addFrontierUrls(job.id, newUrls, depth + 1, 'queued', pageUrl);
+        await storage.addFrontierUrls(job.id, variants, depth + 1, 'duplicate', pageUrl);
+        await storage.updateFrontierUrl(job.id, pageUrl, 'visited');
+
+        pagesProcessed++;
+
+        // Update progress
+        await storage.updateCrawlJob(job.id, {
+          progress: Math.round((pagesProcessed / job.maxPages) * 100),
+          pagesProcessed,
+          totalPagesFound: visitedUrls.size + urlsToVisit.length,
+          imagesFound: totalImages,
+          duplicatesCollapsed: duplicateUrls.size,
+          failedPages,
+          currentPage: pageUrl
+        });
+        return { outcome: 'crawled', comparisonError };
+      };
+
+      const crawlPage = async (currentUrl: string) => {
+        const depth = depths.get(currentUrl) ?? 0;
+        const referrer = referrers.get(currentUrl) ?? null;
+
+        if (job.respectRobotsTxt && !(await robots.load(currentUrl)).isAllowed(currentUrl)) {
+          console.log(`Skipping ${currentUrl}: disallowed by robots.txt`);
+          await storage.updateFrontierUrl(job.id, currentUrl, 'blocked');
+          await recordPage({ url: currentUrl, outcome: 'blocked', depth, referrer });
+          return;
+        }
+
+        await storage.updateFrontierUrl(job.id, currentUrl, 'fetching');
+        
+        this.emitProgress(job.id, {
+          status: 'running',
+          progress: Math.round((pagesProcessed / job.maxPages) * 100),
+          pagesProcessed,
+          totalPagesFound: visitedUrls.size + urlsToVisit.length,
+          imagesFound: totalImages,
+          duplicatesCollapsed: duplicateUrls.size,
+          failedPages,
+          currentPage: currentUrl,
+          error: null
+        });
+
+        const attempts: PageAttempt[] = [];
+        let outcome: PageOutcome = 'failed';
+        let lastResponse: FetchedPage | null = null;
+        let redirectError: RedirectError | null = null;
+        let comparisonError: string | null = null;
+        // Frontier entry a failure is recorded on
+        let failedUrl = currentUrl;
+
+        for (let attempt = 1; ; attempt++) {
+          await limiter.wait(currentUrl);
+
+          const startedAt = Date.now();
+          let response: FetchedPage | null = null;
+          let failure: FetchFailure | null = null;
+          // With a Retry-After, the limiter holds every request to this host until the server is ready again
+          let retryAfter: number | null = null;
+
+          // Only the fetch is retried; processing a fetched page again would store its images twice
+          try {
+            response = await fetcher.fetch(currentUrl, timeout, DEVICE_PROFILES[job.deviceProfile], redirectGuard(currentUrl, depth));
+          } catch (error) {
+            console.warn(`Error fetching ${currentUrl} (attempt ${attempt}/${job.maxAttempts}):`, error);
+            failure = classifyError(error, timeout);
+            redirectError = error instanceof RedirectError ? error : null;
+          }
+          const fetchTime = Date.now() - startedAt;
+
+          if (response) {
+            if (response.redirectChain.length > job.maxRedirectHops) {
+              console.warn(`${currentUrl} redirects ${response.redirectChain.length} times on the way to ${response.finalUrl}`);
+            }
 
-          // Extract links for BFS
-          const links = await page.evaluate(() => 
-            Array.from(document.querySelectorAll('a[href]')).map((a) => (a as HTMLAnchorElement).href)
-          );
-
-          for (const link of links) {
-            try {
-              const linkUrl = new URL(link, url);
-              if (linkUrl.origin === origin) {
-                const cleanUrl = linkUrl.toString().split('#')[0];
-                if (!visited.has(cleanUrl) && !toVisit.includes(cleanUrl)) {
-                  toVisit.push(cleanUrl);
-                }
+            if (!(await mayFollowRedirect(currentUrl, depth, response.finalUrl))) {
+              outcome = 'blocked';
+              await storage.updateFrontierUrl(job.id, currentUrl, 'blocked');
+            } else if (response.ok) {
+              try {
+                ({ outcome, comparisonError } = await processPage(currentUrl, depth, response));
+              } catch (error) {
+                // Whatever the page saved before failing is dropped with it
+                console.warn(`Error processing ${currentUrl}:`, error);
+                failure = { retryable: false, reason: `Processing failed: ${error instanceof Error ? error.message : error}` };
+                const pageUrl = normalizeUrl(response.finalUrl);
+                // Once a redirect is collapsed, the page it landed on holds the claim and fails in its place
+                if (duplicateUrls.has(currentUrl)) failedUrl = pageUrl;
+                await storage.deleteCrawledImagesByPage(job.id, pageUrl);
+              }
+            } else {
+              console.warn(`Failed to fetch ${currentUrl}: ${response.status}`);
+              failure = classifyStatus(response.status);
+              retryAfter = job.honorRetryAfter && (response.status === 429 || response.status === 503)
+                ? parseRetryAfter(response.retryAfter)
+                : null;
+              if (retryAfter !== null) {
+                limiter.deferHost(currentUrl, Math.min(retryAfter, MAX_RETRY_AFTER));
               }
-            } catch (e) {
-              // Invalid URL, skip
             }
           }
 
-          // Update total pages found
-          const totalPagesFound = visited.size + toVisit.length;
-          await storage.updateCrawlJob(job.id, { totalPagesFound });
-          this.emit('progress', job.id, { totalPagesFound });
+          lastResponse = response;
+          const retry = failure !== null && retryPolicy.shouldRetry(attempt, failure);
+          const retryDelay = retry && retryAfter === null ? retryPolicy.delayAfter(attempt) : null;
+          attempts.push({
+            attempt,
+            startedAt: new Date(startedAt).toISOString(),
+            duration: fetchTime,
+            httpStatus: response?.status ?? null,
+            error: failure?.reason ?? null,
+            retryable: failure ? failure.retryable : null,
+            retryDelay
+          });
 
-          // Extract images
-          const images = await this.extractImagesFromPage(page, job.includeCssBackgrounds);
-          
-          for (const imageData of images) {
-            const fullImageUrl = this.normalizeUrl(url, imageData.image_url);
-            if (!fullImageUrl) continue;
-
-            const filename = this.extractFilename(fullImageUrl);
-            const imageType = this.extractImageType(fullImageUrl);
-
-            await storage.createCrawledImage({
-              jobId: job.id,
-              pageUrl: url,
-              imageUrl: fullImageUrl,
-              altText: imageData.alt_text || null,
-              imgTagHtml: imageData.html?.replace(/\n|\r/g, ' ').slice(0, 400) || null,
-              filename,
-              imageType,
-              dimensions: null, // Could be enhanced to get actual dimensions
-            });
+          if (!retry) break;
+          console.log(`Retrying ${currentUrl} (attempt ${attempt + 1}/${job.maxAttempts})`);
+          if (retryDelay !== null) {
+            await new Promise(resolve => setTimeout(resolve, retryDelay));
           }
+        }
 
-          // Update images found count
-          const totalImages = await storage.getCrawledImagesByJobId(job.id);
-          await storage.updateCrawlJob(job.id, { imagesFound: totalImages.length });
-          this.emit('progress', job.id, { imagesFound: totalImages.length });
+        const lastAttempt = attempts[attempts.length - 1];
+        if (outcome === 'failed') {
+          console.warn(`Skipping ${currentUrl} after ${attempts.length} attempts: ${lastAttempt.error}`);
+          failedPages++;
+          await storage.updateFrontierUrl(job.id, failedUrl, 'failed');
+          await storage.updateCrawlJob(job.id, { failedPages });
+        }
+
+        await recordPage({
+          url: currentUrl,
+          outcome,
+          httpStatus: lastResponse?.status ?? null,
+          redirectChain: lastResponse?.redirectChain ?? redirectError?.redirectChain ?? [],
+          finalUrl: lastResponse?.finalUrl ?? redirectError?.finalUrl ?? null,
+          contentType: lastResponse?.contentType ?? null,
+          ttfb: lastResponse?.ttfb ?? null,
+          totalTime: lastAttempt.duration,
+          byteSize: lastResponse?.byteSize ?? null,
+          retryCount: attempts.length - 1,
+          error: outcome === 'failed' ? lastAttempt.error : null,
+          comparisonError,
+          attempts,
+          depth,
+          referrer
+        });
+      };
+
+      const worker = async () => {
+        while (!workerError && !this.stopRequests.has(job.id)) {
+          if (urlsToVisit.length === 0 || pagesProcessed + pagesInFlight >= job.maxPages) {
+            // Pages still in flight may add links or fail and free a slot
+            if (pagesInFlight === 0) return;
+            await new Promise<void>(resolve => idleWorkers.push(resolve));
+            continue;
+          }
 
-        } catch (pageError) {
-          console.warn('Failed to load page:', url, pageError);
-          continue;
+          const currentUrl = urlsToVisit.shift()!;
+          if (visitedUrls.has(currentUrl) || duplicateUrls.has(currentUrl)) {
+            continue;
+          }
+          visitedUrls.add(currentUrl);
+
+          pagesInFlight++;
+          try {
+            await crawlPage(currentUrl);
+          } catch (error) {
+            workerError = workerError ?? error;
+          } finally {
+            pagesInFlight--;
+            wakeIdleWorkers();
+          }
         }
+      };
+
+      await Promise.all(Array.from({ length: job.concurrency }, worker));
+      if (workerError) throw workerError;
+      if (await stopIfRequested()) return;
+
+      if (job.probeImages) {
+        await this.probeImages(job, limiter, auth, (imageUrl) => {
+          this.emitProgress(job.id, {
+            status: 'running',
+            progress: 100,
+            pagesProcessed,
+            totalPagesFound: visitedUrls.size,
+            imagesFound: totalImages,
+            duplicatesCollapsed: duplicateUrls.size,
+            failedPages,
+            currentPage: imageUrl,
+            error: null
+          });
+        });
+        if (await stopIfRequested()) return;
       }
 
+      await this.discardFrontier(job.id);
+      this.clearStopRequest(job.id);
+
+      // Crawl completed
+      await storage.updateCrawlJob(job.id, {
+        status: 'completed',
+        progress: 100,
+        pagesProcessed,
+        totalPagesFound: visitedUrls.size,
+        imagesFound: totalImages,
+        duplicatesCollapsed: duplicateUrls.size,
+        failedPages,
+        currentPage: null,
+        completedAt: new Date()
+      });
+
+      this.emitProgress(job.id, {
+        status: 'completed',
+        progress: 100,
+        pagesProcessed,
+        totalPagesFound: visitedUrls.size,
+        imagesFound: totalImages,
+        duplicatesCollapsed: duplicateUrls.size,
+        failedPages,
+        currentPage: null,
+        error: null
+      });
+
+      console.log(`Crawl completed for job ${job.id}: ${pagesProcessed} pages processed, ${totalImages} images found, ${failedPages} pages failed`);
+
     } finally {
-      await browser.close();
+      await fetcher.close();
     }
   }
 
-  private async extractImagesFromPage(page: any, includeCssBackgrounds: boolean) {
-    return await page.evaluate((includeCss: boolean) => {
-      const imgs: Array<{image_url: string, alt_text: string, html: string}> = [];
-      
-      // <img> elements
-      document.querySelectorAll('img').forEach((img: HTMLImageElement) => {
-        const src = img.currentSrc || img.getAttribute('src') || '';
-        if (src) {
-          imgs.push({
-            image_url: src,
-            alt_text: img.getAttribute('alt') || '',
-            html: img.outerHTML || ''
-          });
-        }
-      });
-      
-      // <picture> <source srcset=...>
-      document.querySelectorAll('picture source').forEach((source) => {
-        const sourceEl = source as HTMLSourceElement;
-        const srcset = sourceEl.getAttribute('srcset') || '';
-        const firstSrc = srcset.split(',').map(s => s.trim()).filter(Boolean)[0] || '';
-        if (firstSrc) {
-          imgs.push({
-            image_url: firstSrc.split(' ')[0], // Remove descriptor
-            alt_text: '',
-            html: sourceEl.outerHTML
+  private async stopCrawl(job: CrawlJob, request: StopRequest, frontier: CrawlFrontier): Promise<void> {
+    this.stopRequests.delete(job.id);
+    const status = request === 'pause' ? 'paused' : 'cancelled';
+    if (request === 'cancel') {
+      await this.discardFrontier(job.id);
+    }
+
+    const progress = {
+      progress: Math.round((frontier.pagesProcessed / job.maxPages) * 100),
+      pagesProcessed: frontier.pagesProcessed,
+      totalPagesFound: frontier.visitedUrls.size + frontier.urlsToVisit.length,
+      imagesFound: frontier.totalImages,
+      duplicatesCollapsed: frontier.duplicateUrls.size,
+      failedPages: frontier.failedPages,
+      currentPage: null
+    };
+
+    await storage.updateCrawlJob(job.id, {
+      status,
+      ...progress,
+      completedAt: request === 'cancel' ? new Date() : null
+    });
+    this.emitProgress(job.id, { status, ...progress, error: null });
+
+    console.log(`Crawl ${status} for job ${job.id}: ${frontier.pagesProcessed} pages processed, ${frontier.urlsToVisit.length} URLs left in the frontier`);
+  }
+
+  // Requests each unique image once and copies status, headers and real dimensions onto every record using it
+  private async probeImages(job: CrawlJob, limiter: HostRateLimiter, auth: CrawlAuth, onProbe: (imageUrl: string) => void): Promise<void> {
+    const images = await storage.getCrawledImagesByJobId(job.id);
+    const imagesByUrl = new Map<string, CrawledImage[]>();
+
+    for (const image of images) {
+      if (image.contentHash) {
+        await this.measureInlineImage(image);
+        continue;
+      }
+      const group = imagesByUrl.get(image.imageUrl) || [];
+      group.push(image);
+      imagesByUrl.set(image.imageUrl, group);
+    }
+
+    const queue = Array.from(imagesByUrl.keys());
+    const worker = async () => {
+      while (queue.length > 0 && !this.stopRequests.has(job.id)) {
+        const imageUrl = queue.shift()!;
+        onProbe(imageUrl);
+
+        const result = await probeImage(imageUrl, job.timeout || 60000, limiter, auth);
+        const probedType = result.size?.format
+          || (result.contentType?.startsWith('image/') ? this.getImageTypeFromMime(result.contentType) : null);
+
+        for (const image of imagesByUrl.get(imageUrl)!) {
+          await storage.updateCrawledImage(image.id, {
+            httpStatus: result.status,
+            finalUrl: result.finalUrl,
+            redirectChain: result.redirects,
+            mimeType: result.contentType,
+            byteSize: result.contentLength,
+            probeError: result.error,
+            dimensions: result.size ? `${result.size.width}x${result.size.height}` : image.dimensions,
+            imageType: image.imageType || probedType,
+            wastedBytes: image.wastedBytes ?? estimateWastedBytes({ ...image, byteSize: result.contentLength })
           });
         }
-      });
-      
-      if (includeCss) {
-        // Inline style background-image
-        document.querySelectorAll('[style]').forEach((el) => {
-          const element = el as HTMLElement;
-          const style = element.getAttribute('style') || '';
-          const match = style.match(/background-image:\s*url\(['\"]?(.*?)['\"]?\)/i);
-          if (match && match[1]) {
-            imgs.push({
-              image_url: match[1],
-              alt_text: element.getAttribute('aria-label') || '',
-              html: style
-            });
-          }
-        });
       }
-      
-      return imgs.filter(i => i.image_url && i.image_url.trim());
-    }, includeCssBackgrounds);
+    };
+
+    await Promise.all(Array.from({ length: Math.min(PROBE_CONCURRENCY, queue.length) }, worker));
+    console.log(`Probed ${imagesByUrl.size} unique images for job ${job.id}`);
+  }
+
+  private async measureInlineImage(image: CrawledImage): Promise<void> {
+    const payload = await storage.getImagePayload(image.contentHash!);
+    const size = payload && readImageSize(Buffer.from(payload.data, 'base64'));
+    if (size) {
+      await storage.updateCrawledImage(image.id, { dimensions: `${size.width}x${size.height}` });
+    }
+  }
+
+  private getImageType(url: string): string | null {
+    const extension = url.split('.').pop()?.toLowerCase().split('?')[0];
+    const imageExtensions = ['jpg', 'jpeg', 'png', 'gif', 'svg', 'webp', 'bmp', 'ico'];
+    return extension && imageExtensions.includes(extension) ? extension : null;
+  }
+
+  private getImageTypeFromMime(mimeType: string): string | null {
+    const subtype = mimeType.split('/')[1]?.split('+')[0];
+    return subtype || null;
+  }
+
+  private getInlineFilename(inline: InlineImage): string {
+    const extension = this.getImageTypeFromMime(inline.mimeType) || 'bin';
+    return `inline-${inline.contentHash.slice(0, 12)}.${extension}`;
   }
 
-  private normalizeUrl(base: string, url: string): string | null {
+  private getHost(url: string): string | null {
     try {
-      return new URL(url, base).toString();
-    } catch (e) {
+      return new URL(url).host || null;
+    } catch {
       return null;
     }
   }
 
-  private extractFilename(url: string): string {
+  private getFilename(url: string): string | null {
     try {
       const pathname = new URL(url).pathname;
-      const filename = pathname.split('/').pop() || '';
-      return filename || 'unknown';
-    } catch (e) {
-      return 'unknown';
+      const filename = pathname.split('/').pop();
+      return filename || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private emitProgress(jobId: string, progress: CrawlProgress): void {
+    const listener = this.progressListeners.get(jobId);
+    if (listener) {
+      listener(progress);
     }
   }
 
-  private extractImageType(url: string): string {
-    const filename = this.extractFilename(url);
-    const ext = filename.split('.').pop()?.toLowerCase();
-    return ext || 'unknown';
+  addProgressListener(jobId: string, listener: (progress: CrawlProgress) => void): void {
+    this.progressListeners.set(jobId, listener);
   }
 
-  isActive(jobId: string): boolean {
-    return this.activeCrawls.get(jobId) || false;
+  removeProgressListener(jobId: string): void {
+    this.progressListeners.delete(jobId);
   }
 }
 
-export const crawlerService = new CrawlerService();
+export const crawlerService = new CrawlerService();
\ No newline at end of file
@@ -0,0 +1,179 @@
+import safeParse from 'postcss-safe-parser';
+import type { AtRule, Container, Declaration, Document, Rule } from 'postcss';
+import { fetchWithTimeout } from './http';
+import type { CrawlAuth } from './crawl-auth';
+import type { HostRateLimiter } from './rate-limiter';
+
+export interface CssImageReference {
+  url: string;
+  // Selector of the rule the declaration belongs to, or null for inline styles
+  selector: string | null;
+  declaration: string;
+  // Stylesheet the reference was found in, or null for <style> blocks and inline styles
+  stylesheetUrl: string | null;
+}
+
+export interface ParsedStylesheet {
+  images: CssImageReference[];
+  imports: string[];
+}
+
+// Properties whose url() values are images; fonts, filters and clip paths are ignored
+const IMAGE_PROPERTIES = new Set([
+  'background',
+  'background-image',
+  'border-image',
+  'border-image-source',
+  'list-style',
+  'list-style-image',
+  'mask',
+  'mask-image',
+  '-webkit-mask',
+  '-webkit-mask-image',
+  'content',
+  'cursor'
+]);
+
+const CSS_URL_REGEX = /url\(\s*(?:"([^"]*)"|'([^']*)'|([^)'"]*?))\s*\)/gi;
+const IMAGE_SET_REGEX = /(?:-webkit-)?image-set\(/gi;
+
+export function parseStylesheet(css: string, baseUrl: string, stylesheetUrl: string | null): ParsedStylesheet {
+  const root = safeParse(css);
+  const images: CssImageReference[] = [];
+  const imports: string[] = [];
+
+  root.walkAtRules('import', (rule) => {
+    const importUrl = extractCssUrls(rule.params)[0] || rule.params.match(/^\s*["']([^"']+)["']/)?.[1];
+    if (importUrl) {
+      imports.push(resolveCssUrl(importUrl, baseUrl));
+    }
+  });
+
+  root.walkDecls((decl) => {
+    if (!IMAGE_PROPERTIES.has(decl.prop.toLowerCase()) || isInsideFontFace(decl)) return;
+
+    for (const url of extractCssUrls(decl.value)) {
+      images.push({
+        url: resolveCssUrl(url, baseUrl),
+        selector: getSelector(decl),
+        declaration: decl.toString(),
+        stylesheetUrl
+      });
+    }
+  });
+
+  return { images, imports };
+}
+
+export function parseInlineStyle(style: string, baseUrl: string): CssImageReference[] {
+  return parseStylesheet(style, baseUrl, null).images;
+}
+
+// Pulls image URLs out of a declaration value, covering url() as well as the
+// bare strings image-set() accepts
+export function extractCssUrls(value: string): string[] {
+  const urls: string[] = [];
+
+  for (const match of Array.from(value.matchAll(CSS_URL_REGEX))) {
+    const url = (match[1] ?? match[2] ?? match[3] ?? '').trim();
+    if (url && !url.startsWith('#')) urls.push(url);
+  }
+
+  for (const match of Array.from(value.matchAll(IMAGE_SET_REGEX))) {
+    const body = readParenthesized(value, match.index! + match[0].length);
+    // url() entries inside image-set were already collected above
+    const withoutUrls = body.replace(CSS_URL_REGEX, '');
+    for (const stringMatch of Array.from(withoutUrls.matchAll(/"([^"]+)"|'([^']+)'/g))) {
+      urls.push((stringMatch[1] ?? stringMatch[2]).trim());
+    }
+  }
+
+  return urls;
+}
+
+function readParenthesized(value: string, start: number): string {
+  let depth = 1;
+  let position = start;
+  while (position < value.length && depth > 0) {
+    if (value[position] === '(') depth++;
+    else if (value[position] === ')') depth--;
+    position++;
+  }
+  return value.slice(start, position - 1);
+}
+
+function getSelector(decl: Declaration): string | null {
+  for (let node: Container | Document | undefined = decl.parent; node; node = node.parent) {
+    if (node.type === 'rule') return (node as Rule).selector;
+  }
+  return null;
+}
+
+function isInsideFontFace(decl: Declaration): boolean {
+  for (let node: Container | Document | undefined = decl.parent; node; node = node.parent) {
+    if (node.type === 'atrule' && (node as AtRule).name.toLowerCase() === 'font-face') return true;
+  }
+  return false;
+}
+
+function resolveCssUrl(url: string, baseUrl: string): string {
+  try {
+    return new URL(url, baseUrl).toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Fetches in-scope stylesheets and their @imports once per crawl, caching
+ * the image references found in each so every page linking a stylesheet can
+ * reuse them.
+ */
+export class StylesheetLoader {
+  // Parsed per URL without following imports, so import cycles can't deadlock on each other
+  private cache = new Map<string, Promise<ParsedStylesheet>>();
+
+  constructor(private isInScope: (url: string) => boolean, private timeout: number, private limiter?: HostRateLimiter, private auth?: CrawlAuth) {}
+
+  async load(stylesheetUrl: string): Promise<CssImageReference[]> {
+    return this.loadWithImports(stylesheetUrl, new Set());
+  }
+
+  private async loadWithImports(stylesheetUrl: string, chain: Set<string>): Promise<CssImageReference[]> {
+    if (chain.has(stylesheetUrl) || !this.isInScope(stylesheetUrl)) {
+      return [];
+    }
+    chain.add(stylesheetUrl);
+
+    let pending = this.cache.get(stylesheetUrl);
+    if (!pending) {
+      pending = this.fetchStylesheet(stylesheetUrl);
+      this.cache.set(stylesheetUrl, pending);
+    }
+
+    const { images, imports } = await pending;
+    const importedImages: CssImageReference[] = [];
+    for (const importUrl of imports) {
+      importedImages.push(...await this.loadWithImports(importUrl, chain));
+    }
+    return [...images, ...importedImages];
+  }
+
+  private async fetchStylesheet(stylesheetUrl: string): Promise<ParsedStylesheet> {
+    try {
+      await this.limiter?.wait(stylesheetUrl);
+      const response = await fetchWithTimeout(stylesheetUrl, this.timeout, {}, this.auth);
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        console.warn(`Failed to fetch stylesheet ${stylesheetUrl}: ${response.status}`);
+        return { images: [], imports: [] };
+      }
+
+      return parseStylesheet(await response.text(), stylesheetUrl, stylesheetUrl);
+    } catch (error) {
+      console.warn(`Error loading stylesheet ${stylesheetUrl}:`, error);
+      return { images: [], imports: [] };
+    }
+  }
+}
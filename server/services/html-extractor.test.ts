@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { DEFAULT_LAZY_LOAD_ATTRIBUTES } from '@shared/schema';
+import { extractImages, extractLinks, parseHtml, unreferencedNetworkImages } from './html-extractor';
+
+// Each fixture page sits next to a JSON file listing the images and links it should yield
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '__fixtures__', 'extraction');
+const PAGE_URL = 'https://example.com/shop/';
+
+interface ExpectedImage {
+  imageUrl: string;
+  source: string;
+  lazyLoadSource: string | null;
+  placeholderUrl: string | null;
+  // Every srcset and <source> candidate, in document order; null when the markup has none
+  candidates: string[] | null;
+}
+
+interface Expectation {
+  images: ExpectedImage[];
+  links: string[];
+}
+
+const OPTIONS = { includeCssBackgrounds: false, lazyLoadAttributes: DEFAULT_LAZY_LOAD_ATTRIBUTES };
+
+function extract(html: string): Expectation {
+  const page = parseHtml(html, PAGE_URL);
+  const images = extractImages(page, OPTIONS);
+
+  return {
+    images: images.map(image => ({
+      imageUrl: image.imageUrl,
+      source: image.source,
+      lazyLoadSource: image.lazyLoadSource,
+      placeholderUrl: image.placeholderUrl,
+      candidates: image.sources?.flatMap(source => source.candidates.map(candidate => candidate.url)) ?? null
+    })),
+    links: extractLinks(page, () => true).map(link => link.url)
+  };
+}
+
+describe('HTML extraction fixtures', () => {
+  const fixtures = fs.readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.html')).sort();
+
+  for (const fixture of fixtures) {
+    it(fixture, () => {
+      const html = fs.readFileSync(path.join(FIXTURES_DIR, fixture), 'utf8');
+      const expected: Expectation = JSON.parse(
+        fs.readFileSync(path.join(FIXTURES_DIR, fixture.replace(/\.html$/, '.json')), 'utf8')
+      );
+
+      assert.deepEqual(extract(html), expected);
+    });
+  }
+});
+
+describe('unreferencedNetworkImages', () => {
+  it('skips requests for srcset candidates and placeholders the DOM references', () => {
+    const images = extractImages(parseHtml(`
+      <img src="/a.jpg" srcset="/a.jpg 1x, /a@2x.jpg 2x">
+      <img src="/blank.gif" data-src="/b.jpg">
+    `, PAGE_URL), OPTIONS);
+    const requested = [
+      'https://example.com/a@2x.jpg',
+      'https://example.com/blank.gif',
+      'https://example.com/b.jpg',
+      'https://example.com/tracker.png'
+    ];
+
+    assert.deepEqual(
+      unreferencedNetworkImages(requested, images).map(image => [image.imageUrl, image.source]),
+      [['https://example.com/tracker.png', 'network']]
+    );
+  });
+});
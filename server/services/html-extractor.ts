@@ -0,0 +1,644 @@
+import { parseDocument, DomUtils } from 'htmlparser2';
+import type { Document, Element } from 'domhandler';
+import { type ImageCandidate, type ImageSource, type ImageSourceKind } from '@shared/schema';
+import { parseStylesheet, parseInlineStyle, type CssImageReference } from './css-extractor';
+import { type ManifestIcon } from './manifest-extractor';
+import { decodeDataUri, svgToDataUri } from './inline-images';
+import { readImageSize } from './image-probe';
+
+export interface ExtractedImage {
+  imageUrl: string;
+  source: ImageSourceKind;
+  altText: string;
+  html: string;
+  sources: ImageSource[] | null;
+  lazyLoadSource: string | null;
+  placeholderUrl: string | null;
+  cssSelector?: string | null;
+  stylesheetUrl?: string | null;
+  dimensions?: string | null;
+}
+
+export interface ExtractionOptions {
+  includeCssBackgrounds: boolean;
+  lazyLoadAttributes: string[];
+}
+
+export interface ParsedPage {
+  document: Document;
+  // URL that relative references resolve against (honours <base href>)
+  baseUrl: string;
+}
+
+interface ExtractionContext extends ExtractionOptions {
+  page: ParsedPage;
+}
+
+type ImageExtractor = (context: ExtractionContext) => ExtractedImage[];
+
+// Extensions that are never worth fetching as HTML pages
+const SKIP_LINK_EXTENSIONS = ['.pdf', '.doc', '.docx', '.zip', '.exe', '.dmg', '.jpg', '.jpeg', '.png', '.gif', '.svg', '.webp', '.ico', '.css', '.js'];
+
+const OG_IMAGE_PROPERTIES = ['og:image', 'og:image:url', 'og:image:secure_url'];
+const TWITTER_IMAGE_NAMES = ['twitter:image', 'twitter:image:src'];
+const ICON_RELS = ['icon', 'shortcut icon', 'apple-touch-icon', 'apple-touch-icon-precomposed', 'mask-icon'];
+// schema.org properties whose values are images
+const JSON_LD_IMAGE_KEYS = ['image', 'logo', 'thumbnailUrl', 'photo'];
+
+// Filenames lazy-loading libraries commonly ship as stand-ins for the real image
+const PLACEHOLDER_FILENAME_REGEX = /(^|[-_.\/])(blank|spacer|pixel|placeholder|transparent|lazy|loading|grey|gray)[-_.]?[^\/]*\.(gif|png|svg|jpe?g|webp)$/i;
+
+// An <svg> element with nothing inside it
+const EMPTY_SVG_REGEX = /^\s*(<\?xml[^>]*>\s*)?<svg\b[^>]*?(\/>|>\s*<\/svg>)\s*$/i;
+
+export function parseHtml(html: string, pageUrl: string): ParsedPage {
+  const document = parseDocument(html, {
+    lowerCaseTags: true,
+    lowerCaseAttributeNames: true,
+    decodeEntities: true
+  });
+
+  let baseUrl = pageUrl;
+  const baseElement = DomUtils.findOne(
+    (el) => el.name === 'base' && !!getAttribute(el, 'href'),
+    document.children
+  );
+  if (baseElement) {
+    baseUrl = resolveUrl(getAttribute(baseElement, 'href')!, pageUrl);
+  }
+
+  return { document, baseUrl };
+}
+
+export function extractImages(page: ParsedPage, options: ExtractionOptions): ExtractedImage[] {
+  const context: ExtractionContext = { ...options, page };
+  return imageExtractors.flatMap(extractor => extractor(context));
+}
+
+export interface PageLink {
+  // Frontier key for the link, after normalization
+  url: string;
+  // The link as written, resolved and without its fragment
+  href: string;
+}
+
+export interface LinkOptions {
+  normalize?: (url: string) => string;
+  // The crawl's include/exclude rules, tested against the normalized URL
+  filter?: (url: string) => boolean;
+}
+
+// Page links inside the crawl scope, deduplicated by href
+export function extractLinks(page: ParsedPage, isInScope: (url: string) => boolean, options: LinkOptions = {}): PageLink[] {
+  const links = new Map<string, PageLink>();
+
+  for (const anchor of findElements(page, 'a')) {
+    const rawHref = getAttribute(anchor, 'href');
+    if (!rawHref) continue;
+
+    try {
+      const url = new URL(resolveUrl(rawHref, page.baseUrl));
+      url.hash = '';
+      if (!isInScope(url.toString())) continue;
+
+      // Skip common non-page resources
+      const pathname = url.pathname.toLowerCase();
+      if (SKIP_LINK_EXTENSIONS.some(ext => pathname.endsWith(ext))) continue;
+
+      const href = url.toString();
+      const link = options.normalize ? options.normalize(href) : href;
+      if (!links.has(href) && (!options.filter || options.filter(link))) {
+        links.set(href, { url: link, href });
+      }
+    } catch {
+      // Invalid URL, skip
+    }
+  }
+
+  return Array.from(links.values());
+}
+
+// <link rel="canonical">, when the page names one
+export function extractCanonicalUrl(page: ParsedPage): string | null {
+  const link = findElements(page, 'link').find(el => hasRel(el, 'canonical') && getAttribute(el, 'href'));
+  if (!link) return null;
+
+  try {
+    return new URL(resolveUrl(getAttribute(link, 'href')!, page.baseUrl)).toString();
+  } catch {
+    return null;
+  }
+}
+
+// External stylesheets the page pulls in, via <link rel="stylesheet"> or @import in <style> blocks
+export function extractStylesheetUrls(page: ParsedPage): string[] {
+  const urls = new Set<string>();
+
+  for (const link of findElements(page, 'link')) {
+    const href = getAttribute(link, 'href');
+    if (href && hasRel(link, 'stylesheet') && !hasRel(link, 'alternate')) {
+      urls.add(resolveUrl(href, page.baseUrl));
+    }
+  }
+
+  for (const style of findElements(page, 'style')) {
+    for (const importUrl of parseStylesheet(DomUtils.textContent(style), page.baseUrl, null).imports) {
+      urls.add(importUrl);
+    }
+  }
+
+  return Array.from(urls);
+}
+
+// The web app manifest, whose icons the crawler fetches separately
+export function extractManifestUrl(page: ParsedPage): string | null {
+  const link = findElements(page, 'link').find(el => hasRel(el, 'manifest') && getAttribute(el, 'href'));
+  return link ? resolveUrl(getAttribute(link, 'href')!, page.baseUrl) : null;
+}
+
+export function cssReferenceToImage(reference: CssImageReference): ExtractedImage {
+  return {
+    imageUrl: fixNextJsImageUrl(reference.url),
+    source: 'css',
+    altText: '',
+    html: reference.declaration,
+    sources: null,
+    lazyLoadSource: null,
+    placeholderUrl: null,
+    cssSelector: reference.selector,
+    stylesheetUrl: reference.stylesheetUrl
+  };
+}
+
+export function manifestIconToImage(icon: ManifestIcon): ExtractedImage {
+  return {
+    imageUrl: icon.url,
+    source: 'manifest',
+    altText: '',
+    html: icon.json,
+    sources: null,
+    lazyLoadSource: null,
+    placeholderUrl: null,
+    dimensions: icon.sizes
+  };
+}
+
+// An image the browser requested that the DOM doesn't reference
+function networkRequestToImage(url: string): ExtractedImage {
+  return {
+    imageUrl: fixNextJsImageUrl(url),
+    source: 'network',
+    altText: '',
+    html: '',
+    sources: null,
+    lazyLoadSource: null,
+    placeholderUrl: null
+  };
+}
+
+// Every URL an extracted image references: the chosen one (the lazy URL when it was lazy-loaded),
+// each srcset and <source> candidate, and the placeholder
+export function referencedImageUrls(image: ExtractedImage): string[] {
+  return [
+    image.imageUrl,
+    ...(image.sources ?? []).flatMap(source => source.candidates.map(candidate => candidate.url)),
+    ...(image.placeholderUrl ? [image.placeholderUrl] : [])
+  ];
+}
+
+// Images the browser requested that none of the extracted images reference, such as script-loaded ones
+export function unreferencedNetworkImages(requestedUrls: string[], images: ExtractedImage[]): ExtractedImage[] {
+  const referenced = new Set(images.flatMap(referencedImageUrls));
+  return requestedUrls
+    .map(networkRequestToImage)
+    .filter(image => !referenced.has(image.imageUrl));
+}
+
+export function resolveUrl(url: string, baseUrl: string): string {
+  try {
+    return new URL(url, baseUrl).toString();
+  } catch {
+    return url;
+  }
+}
+
+// Each <img> is one logical image; inside a <picture> its <source> siblings are grouped with it
+const extractResponsiveImages: ImageExtractor = ({ page, lazyLoadAttributes }) => {
+  const images: ExtractedImage[] = [];
+  const consumedFallbacks = new Set<Element>();
+  const allImgs = findElements(page, 'img');
+
+  for (const img of allImgs) {
+    if (isInsideNoscript(img)) continue;
+
+    const picture = getPictureParent(img);
+    const sources: ImageSource[] = [];
+
+    if (picture) {
+      for (const source of DomUtils.getElementsByTagName('source', picture.children, false)) {
+        sources.push(toImageSource(source, page.baseUrl, lazyLoadAttributes));
+      }
+    }
+
+    const imgSource = toImageSource(img, page.baseUrl, lazyLoadAttributes);
+    sources.push(imgSource);
+
+    const src = getAttribute(img, 'src');
+    const lazySrc = findLazyAttribute(img, lazyLoadAttributes, false);
+    const lazySrcset = findLazyAttribute(img, lazyLoadAttributes, true);
+
+    let imageUrl = src ? toImageUrl(src, page.baseUrl) : imgSource.candidates[0]?.url;
+    let lazyLoadSource: string | null = null;
+    let placeholderUrl: string | null = null;
+
+    if (lazySrc || lazySrcset) {
+      // The real URL lives in a data attribute; whatever sits in src is a stand-in
+      const matched = (lazySrc || lazySrcset)!;
+      lazyLoadSource = matched.name;
+      placeholderUrl = src ? toImageUrl(src, page.baseUrl) : null;
+      imageUrl = lazySrc
+        ? toImageUrl(lazySrc.value, page.baseUrl)
+        : parseSrcset(lazySrcset!.value).map(candidate => toImageUrl(candidate.url, page.baseUrl))[0];
+    } else if (imageUrl && isPlaceholderImage(img, imageUrl)) {
+      placeholderUrl = imageUrl;
+      const fallback = getNoscriptFallback(img);
+      const fallbackSrc = fallback && getAttribute(fallback, 'src');
+      if (fallback && fallbackSrc) {
+        consumedFallbacks.add(fallback);
+        imageUrl = toImageUrl(fallbackSrc, page.baseUrl);
+        lazyLoadSource = 'noscript';
+      }
+    }
+
+    if (!imageUrl) continue;
+
+    images.push({
+      imageUrl,
+      source: picture ? 'picture' : 'img',
+      altText: getAttribute(img, 'alt') || '',
+      html: DomUtils.getOuterHTML(picture || img),
+      sources: sources.some(source => source.candidates.length > 0) ? sources : null,
+      lazyLoadSource,
+      placeholderUrl
+    });
+  }
+
+  // <noscript> copies of images already found above are duplicates, anything else is new
+  const foundUrls = new Set(images.map(image => image.imageUrl));
+  for (const img of allImgs) {
+    if (!isInsideNoscript(img) || consumedFallbacks.has(img)) continue;
+
+    const src = getAttribute(img, 'src');
+    if (!src) continue;
+
+    const imageUrl = toImageUrl(src, page.baseUrl);
+    if (foundUrls.has(imageUrl)) continue;
+    foundUrls.add(imageUrl);
+
+    images.push({
+      imageUrl,
+      source: 'img',
+      altText: getAttribute(img, 'alt') || '',
+      html: DomUtils.getOuterHTML(img),
+      sources: null,
+      lazyLoadSource: 'noscript',
+      placeholderUrl: null
+    });
+  }
+
+  return images;
+};
+
+// <style> blocks and style attributes; linked stylesheets are fetched separately by the crawler
+const extractCssBackgrounds: ImageExtractor = ({ page, includeCssBackgrounds }) => {
+  if (!includeCssBackgrounds) return [];
+
+  const references: CssImageReference[] = [];
+
+  for (const style of findElements(page, 'style')) {
+    references.push(...parseStylesheet(DomUtils.textContent(style), page.baseUrl, null).images);
+  }
+
+  const styledElements = DomUtils.findAll(el => getAttribute(el, 'style') !== undefined, page.document.children);
+  for (const element of styledElements) {
+    for (const reference of parseInlineStyle(getAttribute(element, 'style')!, page.baseUrl)) {
+      references.push({ ...reference, selector: describeElement(element) });
+    }
+  }
+
+  return references.map(cssReferenceToImage);
+};
+
+// Top-level inline <svg> elements, captured as data: URIs so they're stored like any other inline image
+const extractInlineSvgs: ImageExtractor = ({ page }) => {
+  const images: ExtractedImage[] = [];
+
+  for (const svg of findElements(page, 'svg')) {
+    if (hasAncestor(svg, 'svg')) continue;
+
+    const title = DomUtils.findOne(el => el.name === 'title', svg.children, false);
+    let markup = DomUtils.getOuterHTML(svg);
+    // Standalone SVG documents need the namespace that inline markup may omit
+    if (!getAttribute(svg, 'xmlns')) {
+      markup = markup.replace(/^<svg/, '<svg xmlns="http://www.w3.org/2000/svg"');
+    }
+
+    images.push({
+      imageUrl: svgToDataUri(markup),
+      source: 'svg',
+      altText: getAttribute(svg, 'aria-label') || (title ? DomUtils.textContent(title).trim() : ''),
+      // Only the opening tag; the full markup is kept with the payload
+      html: markup.slice(0, markup.indexOf('>') + 1),
+      sources: null,
+      lazyLoadSource: null,
+      placeholderUrl: null
+    });
+  }
+
+  return images;
+};
+
+// Open Graph and Twitter card share images, with their companion :alt tags
+const extractSocialImages: ImageExtractor = ({ page }) => {
+  const images: ExtractedImage[] = [];
+  const metas = findElements(page, 'meta');
+  const metaKey = (meta: Element) => (getAttribute(meta, 'property') || getAttribute(meta, 'name') || '').toLowerCase();
+  const findAlt = (key: string) => {
+    const altMeta = metas.find(meta => metaKey(meta) === key);
+    return altMeta ? getAttribute(altMeta, 'content') || '' : '';
+  };
+
+  for (const meta of metas) {
+    const key = metaKey(meta);
+    const content = getAttribute(meta, 'content');
+    if (!content) continue;
+
+    let source: ImageSourceKind;
+    if (OG_IMAGE_PROPERTIES.includes(key)) source = 'og';
+    else if (TWITTER_IMAGE_NAMES.includes(key)) source = 'twitter';
+    else continue;
+
+    images.push({
+      imageUrl: toImageUrl(content, page.baseUrl),
+      source,
+      altText: findAlt(`${source === 'og' ? 'og' : 'twitter'}:image:alt`),
+      html: DomUtils.getOuterHTML(meta),
+      sources: null,
+      lazyLoadSource: null,
+      placeholderUrl: null
+    });
+  }
+
+  return images;
+};
+
+// Favicons and touch icons declared with <link rel>
+const extractIcons: ImageExtractor = ({ page }) => {
+  const images: ExtractedImage[] = [];
+
+  for (const link of findElements(page, 'link')) {
+    const href = getAttribute(link, 'href');
+    const rel = (getAttribute(link, 'rel') || '').toLowerCase().replace(/\s+/g, ' ');
+    if (!href || !ICON_RELS.includes(rel)) continue;
+
+    images.push({
+      imageUrl: toImageUrl(href, page.baseUrl),
+      source: 'icon',
+      altText: '',
+      html: DomUtils.getOuterHTML(link),
+      sources: null,
+      lazyLoadSource: null,
+      placeholderUrl: null,
+      dimensions: getAttribute(link, 'sizes') || null
+    });
+  }
+
+  return images;
+};
+
+// image, logo and thumbnailUrl values anywhere in JSON-LD structured data
+const extractJsonLdImages: ImageExtractor = ({ page }) => {
+  const images: ExtractedImage[] = [];
+
+  for (const script of findElements(page, 'script')) {
+    if ((getAttribute(script, 'type') || '').toLowerCase() !== 'application/ld+json') continue;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(DomUtils.textContent(script));
+    } catch {
+      continue; // Malformed structured data is common; skip it
+    }
+
+    for (const { key, url } of collectJsonLdImageUrls(data)) {
+      images.push({
+        imageUrl: toImageUrl(url, page.baseUrl),
+        source: 'json-ld',
+        altText: '',
+        html: JSON.stringify({ [key]: url }),
+        sources: null,
+        lazyLoadSource: null,
+        placeholderUrl: null
+      });
+    }
+  }
+
+  return images;
+};
+
+// Order matters: results are reported in extractor order
+const imageExtractors: ImageExtractor[] = [
+  extractResponsiveImages,
+  extractInlineSvgs,
+  extractCssBackgrounds,
+  extractSocialImages,
+  extractIcons,
+  extractJsonLdImages
+];
+
+function findElements(page: ParsedPage, tagName: string): Element[] {
+  return DomUtils.getElementsByTagName(tagName, page.document.children, true);
+}
+
+function hasRel(element: Element, rel: string): boolean {
+  return (getAttribute(element, 'rel') || '').toLowerCase().split(/\s+/).includes(rel);
+}
+
+// Image values may be a URL, an ImageObject ({ url } / { contentUrl }) or an array of either
+function collectJsonLdImageUrls(data: unknown, key = ''): Array<{ key: string, url: string }> {
+  if (Array.isArray(data)) {
+    return data.flatMap(item => collectJsonLdImageUrls(item, key));
+  }
+
+  if (typeof data === 'string') {
+    return JSON_LD_IMAGE_KEYS.includes(key) ? [{ key, url: data }] : [];
+  }
+
+  if (data && typeof data === 'object') {
+    const record = data as Record<string, unknown>;
+    if (JSON_LD_IMAGE_KEYS.includes(key) && (record.url || record.contentUrl)) {
+      const url = record.contentUrl || record.url;
+      return typeof url === 'string' ? [{ key, url }] : [];
+    }
+    return Object.entries(record).flatMap(([childKey, value]) => collectJsonLdImageUrls(value, childKey));
+  }
+
+  return [];
+}
+
+function getAttribute(element: Element, name: string): string | undefined {
+  const value = DomUtils.getAttributeValue(element, name);
+  return value === undefined ? undefined : value.trim();
+}
+
+// Approximates a selector for an element carrying an inline style, e.g. div#hero.banner[style]
+function describeElement(element: Element): string {
+  const id = getAttribute(element, 'id');
+  const classes = (getAttribute(element, 'class') || '').split(/\s+/).filter(Boolean);
+  return `${element.name}${id ? `#${id}` : ''}${classes.map(name => `.${name}`).join('')}[style]`;
+}
+
+function getPictureParent(element: Element): Element | null {
+  const parent = element.parent;
+  return parent && parent.type === 'tag' && (parent as Element).name === 'picture' ? parent as Element : null;
+}
+
+function hasAncestor(element: Element, tagName: string): boolean {
+  for (let node = element.parent; node; node = node.parent) {
+    if (node.type === 'tag' && (node as Element).name === tagName) return true;
+  }
+  return false;
+}
+
+function isInsideNoscript(element: Element): boolean {
+  return hasAncestor(element, 'noscript');
+}
+
+// Lazy-loading markup usually pairs the placeholder <img> with a <noscript> copy right after it
+function getNoscriptFallback(img: Element): Element | null {
+  const next = DomUtils.nextElementSibling(img);
+  if (!next || next.name !== 'noscript') return null;
+  return DomUtils.findOne(el => el.name === 'img', next.children, true);
+}
+
+function findLazyAttribute(element: Element, lazyLoadAttributes: string[], srcset: boolean): { name: string, value: string } | null {
+  for (const name of lazyLoadAttributes) {
+    if (name.toLowerCase().endsWith('srcset') !== srcset) continue;
+    const value = getAttribute(element, name.toLowerCase());
+    if (value) return { name, value };
+  }
+  return null;
+}
+
+function isPlaceholderImage(img: Element, imageUrl: string): boolean {
+  if (getAttribute(img, 'width') === '1' && getAttribute(img, 'height') === '1') return true;
+
+  if (imageUrl.startsWith('data:')) {
+    // 1x1 GIFs/PNGs and empty SVGs are the usual lazy-load stand-ins; small inline icons are real images
+    const inline = decodeDataUri(imageUrl);
+    if (!inline) return false;
+    if (inline.mimeType === 'image/svg+xml') return EMPTY_SVG_REGEX.test(inline.data.toString('utf-8'));
+    const size = readImageSize(inline.data);
+    return size !== null && size.width <= 1 && size.height <= 1;
+  }
+
+  try {
+    return PLACEHOLDER_FILENAME_REGEX.test(new URL(imageUrl).pathname);
+  } catch {
+    return false;
+  }
+}
+
+function toImageSource(element: Element, baseUrl: string, lazyLoadAttributes: string[]): ImageSource {
+  const lazySrcset = findLazyAttribute(element, lazyLoadAttributes, true);
+  const srcset = lazySrcset ? lazySrcset.value : getAttribute(element, 'srcset') || '';
+  const candidates = parseSrcset(srcset).map(candidate => ({
+    ...candidate,
+    url: toImageUrl(candidate.url, baseUrl)
+  }));
+
+  // A plain src on an <img> is the implicit 1x candidate unless srcset already
+  // has a 1x entry or uses width descriptors
+  // When only a lazy srcset is present, the src is a placeholder rather than a 1x candidate
+  const lazySrc = findLazyAttribute(element, lazyLoadAttributes, false);
+  const src = element.name === 'img'
+    ? lazySrc?.value || (lazySrcset ? undefined : getAttribute(element, 'src'))
+    : undefined;
+  const hasOneX = candidates.some(candidate => candidate.width !== null || (candidate.density ?? 1) === 1);
+  if (src && !hasOneX) {
+    candidates.push({ url: toImageUrl(src, baseUrl), width: null, density: 1 });
+  }
+
+  return {
+    element: element.name === 'img' ? 'img' : 'source',
+    media: getAttribute(element, 'media') || null,
+    type: getAttribute(element, 'type') || null,
+    sizes: getAttribute(element, 'sizes') || null,
+    candidates
+  };
+}
+
+// Splits a srcset into candidates following the HTML spec, so URLs containing
+// commas (e.g. Cloudinary transforms) survive intact
+export function parseSrcset(srcset: string): ImageCandidate[] {
+  const candidates: ImageCandidate[] = [];
+  let position = 0;
+
+  while (position < srcset.length) {
+    while (position < srcset.length && /[\s,]/.test(srcset[position])) position++;
+    if (position >= srcset.length) break;
+
+    let urlEnd = position;
+    while (urlEnd < srcset.length && !/\s/.test(srcset[urlEnd])) urlEnd++;
+    let url = srcset.slice(position, urlEnd);
+    position = urlEnd;
+
+    let descriptor = '';
+    if (url.endsWith(',')) {
+      url = url.replace(/,+$/, '');
+    } else {
+      let inParens = false;
+      while (position < srcset.length) {
+        const char = srcset[position];
+        if (char === '(') inParens = true;
+        else if (char === ')') inParens = false;
+        else if (char === ',' && !inParens) break;
+        descriptor += char;
+        position++;
+      }
+    }
+
+    const candidate: ImageCandidate = { url, width: null, density: null };
+    for (const token of descriptor.trim().split(/\s+/).filter(Boolean)) {
+      const value = parseFloat(token);
+      if (token.endsWith('w') && Number.isInteger(value)) candidate.width = value;
+      else if (token.endsWith('x') && !Number.isNaN(value)) candidate.density = value;
+    }
+    if (url) candidates.push(candidate);
+  }
+
+  return candidates;
+}
+
+// An image reference as extraction stores it: absolute, with Next.js image URLs completed
+export function toImageUrl(rawUrl: string, baseUrl: string): string {
+  return fixNextJsImageUrl(resolveUrl(rawUrl, baseUrl));
+}
+
+function fixNextJsImageUrl(url: string): string {
+  // Check if this is a Next.js image URL
+  if (url.includes('/_next/image') && url.includes('url=')) {
+    // Ensure width parameter is present
+    if (!url.includes('w=') && !url.includes('width=')) {
+      // Add default width parameter
+      const separator = url.includes('?') ? '&' : '?';
+      url += `${separator}w=640`;
+    }
+
+    // Ensure quality parameter is present
+    if (!url.includes('q=')) {
+      url += '&q=75';
+    }
+  }
+  return url;
+}
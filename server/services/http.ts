@@ -0,0 +1,49 @@
+import type { CrawlAuth } from './crawl-auth';
+
+// Product token robots.txt groups are matched against
+export const ROBOTS_USER_AGENT = 'SiteImageCrawler';
+export const USER_AGENT = `Mozilla/5.0 (compatible; ${ROBOTS_USER_AGENT}/1.0)`;
+
+// fetch with the crawler's user agent and an abort after `timeout` milliseconds,
+// which also ends a body still being read by then;
+// with `auth`, the crawl's credentials are sent and its cookie jar updated
+export async function fetchWithTimeout(url: string, timeout: number, init: RequestInit = {}, auth?: CrawlAuth): Promise<Response> {
+  const controller = new AbortController();
+  // Left running once the headers arrive; aborting a response already read is a no-op
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  timeoutId.unref();
+
+  try {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'User-Agent': USER_AGENT,
+        ...auth?.headersFor(url),
+        ...init.headers
+      },
+      signal: controller.signal
+    });
+    auth?.storeCookies(url, response);
+    return response;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    throw error;
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date; returns milliseconds to wait
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  if (/^\s*\d+\s*$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Media type of a Content-Type header, without parameters
+export function parseContentType(value: string | null): string | null {
+  return value ? value.split(';')[0].trim().toLowerCase() || null : null;
+}
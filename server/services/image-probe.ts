@@ -0,0 +1,288 @@
+import { MAX_REDIRECTS } from '@shared/schema';
+import { fetchWithTimeout, parseContentType } from './http';
+import type { CrawlAuth } from './crawl-auth';
+import type { HostRateLimiter } from './rate-limiter';
+
+export interface ImageSize {
+  format: string;
+  width: number;
+  height: number;
+}
+
+export interface ProbeResult {
+  status: number | null;
+  finalUrl: string;
+  // Every URL visited before the final one, in order
+  redirects: string[];
+  contentType: string | null;
+  contentLength: number | null;
+  size: ImageSize | null;
+  error: string | null;
+}
+
+// Enough for the header of every supported format, barring JPEGs with huge EXIF blocks
+const HEADER_BYTES = 64 * 1024;
+
+/**
+ * Requests an image with HEAD (following redirects by hand so each hop is
+ * recorded), then fetches the first bytes to read its real dimensions.
+ */
+export async function probeImage(url: string, timeout: number, limiter?: HostRateLimiter, auth?: CrawlAuth): Promise<ProbeResult> {
+  const result: ProbeResult = {
+    status: null,
+    finalUrl: url,
+    redirects: [],
+    contentType: null,
+    contentLength: null,
+    size: null,
+    error: null
+  };
+
+  try {
+    let response = await followRedirects(url, 'HEAD', timeout, result, {}, limiter, auth);
+
+    // Plenty of CDNs reject HEAD; retry the chain with GET before giving up
+    if (response.status === 405 || response.status === 501 || response.status === 403) {
+      result.redirects = [];
+      response = await followRedirects(url, 'GET', timeout, result, { Range: `bytes=0-${HEADER_BYTES - 1}` }, limiter, auth);
+      return await readProbeResponse(response, result);
+    }
+
+    result.status = response.status;
+    result.contentType = parseContentType(response.headers.get('content-type'));
+    result.contentLength = parseLength(response.headers.get('content-length'));
+
+    if (!response.ok) {
+      return result;
+    }
+
+    await limiter?.wait(result.finalUrl);
+    const partial = await fetchWithTimeout(result.finalUrl, timeout, {
+      headers: { Range: `bytes=0-${HEADER_BYTES - 1}` }
+    }, auth);
+    return await readProbeResponse(partial, result);
+  } catch (error) {
+    result.error = describeFetchError(error);
+    return result;
+  }
+}
+
+async function followRedirects(
+  url: string,
+  method: 'HEAD' | 'GET',
+  timeout: number,
+  result: ProbeResult,
+  headers: Record<string, string> = {},
+  limiter?: HostRateLimiter,
+  auth?: CrawlAuth
+): Promise<Response> {
+  let currentUrl = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await limiter?.wait(currentUrl);
+    const response = await fetchWithTimeout(currentUrl, timeout, { method, headers, redirect: 'manual' }, auth);
+    const location = response.headers.get('location');
+
+    if (response.status < 300 || response.status >= 400 || !location) {
+      result.finalUrl = currentUrl;
+      return response;
+    }
+
+    await response.body?.cancel();
+    result.redirects.push(currentUrl);
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+
+  throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+}
+
+async function readProbeResponse(response: Response, result: ProbeResult): Promise<ProbeResult> {
+  result.status = response.status;
+  result.contentType = parseContentType(response.headers.get('content-type')) ?? result.contentType;
+
+  // A 206 reports the full size in Content-Range; a 200 means the server ignored Range
+  const totalFromRange = response.headers.get('content-range')?.match(/\/(\d+)\s*$/)?.[1];
+  result.contentLength = totalFromRange
+    ? parseInt(totalFromRange, 10)
+    : response.status === 200
+      ? parseLength(response.headers.get('content-length')) ?? result.contentLength
+      : result.contentLength;
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    return result;
+  }
+
+  const header = await readFirstBytes(response, HEADER_BYTES);
+  result.size = readImageSize(header);
+  return result;
+}
+
+async function readFirstBytes(response: Response, limit: number): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  try {
+    while (total < limit) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(Buffer.from(value));
+      total += value.length;
+    }
+  } catch (error) {
+    // The fetch timeout also covers the body; a stalled body ends the read early
+    if (!(error instanceof Error && error.name === 'AbortError')) throw error;
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+
+  return Buffer.concat(chunks).subarray(0, limit);
+}
+
+function parseLength(value: string | null): number | null {
+  const length = value ? parseInt(value, 10) : NaN;
+  return Number.isNaN(length) ? null : length;
+}
+
+// Groups low-level fetch failures into the reasons a report needs
+export function describeFetchError(error: unknown): string {
+  if (!(error instanceof Error)) return 'Unknown error';
+  if (error.name === 'AbortError') return 'timeout';
+
+  const code = (error.cause as { code?: string } | undefined)?.code;
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') return `dns: ${code}`;
+  if (code) return `connection: ${code}`;
+  return error.message;
+}
+
+/**
+ * Reads width and height from the first bytes of an image file. Returns null
+ * for unknown formats or truncated headers.
+ */
+export function readImageSize(buffer: Buffer): ImageSize | null {
+  try {
+    if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.toString('ascii', 12, 16) === 'IHDR') {
+      return { format: 'png', width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    }
+
+    if (buffer.length >= 10 && /^GIF8[79]a$/.test(buffer.toString('ascii', 0, 6))) {
+      return { format: 'gif', width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+    }
+
+    if (buffer.length >= 26 && buffer.toString('ascii', 0, 2) === 'BM') {
+      return { format: 'bmp', width: buffer.readInt32LE(18), height: Math.abs(buffer.readInt32LE(22)) };
+    }
+
+    if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+      return readJpegSize(buffer);
+    }
+
+    if (buffer.length >= 30 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+      return readWebpSize(buffer);
+    }
+
+    if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x00000100) {
+      return { format: 'ico', width: buffer[6] || 256, height: buffer[7] || 256 };
+    }
+
+    if (buffer.length >= 12 && buffer.toString('ascii', 4, 8) === 'ftyp') {
+      return readIsoBmffSize(buffer);
+    }
+
+    const text = buffer.toString('utf-8', 0, Math.min(buffer.length, 4096));
+    if (/<svg[\s>]/i.test(text)) {
+      return readSvgSize(text);
+    }
+  } catch {
+    // Truncated header
+  }
+
+  return null;
+}
+
+function readJpegSize(buffer: Buffer): ImageSize | null {
+  let offset = 2;
+
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1];
+
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2;
+      continue;
+    }
+
+    // SOF0..SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { format: 'jpeg', width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+    }
+
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+
+  return null;
+}
+
+function readWebpSize(buffer: Buffer): ImageSize | null {
+  const chunk = buffer.toString('ascii', 12, 16);
+
+  if (chunk === 'VP8 ') {
+    return { format: 'webp', width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+  }
+
+  if (chunk === 'VP8L') {
+    const b0 = buffer[21], b1 = buffer[22], b2 = buffer[23], b3 = buffer[24];
+    return {
+      format: 'webp',
+      width: 1 + (((b1 & 0x3f) << 8) | b0),
+      height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6))
+    };
+  }
+
+  if (chunk === 'VP8X') {
+    return { format: 'webp', width: 1 + buffer.readUIntLE(24, 3), height: 1 + buffer.readUIntLE(27, 3) };
+  }
+
+  return null;
+}
+
+// AVIF and HEIC keep dimensions in the 'ispe' property box
+function readIsoBmffSize(buffer: Buffer): ImageSize | null {
+  const brand = buffer.toString('ascii', 8, 12);
+  const format = brand.startsWith('avi') ? 'avif' : brand.startsWith('hei') || brand === 'mif1' ? 'heic' : null;
+  if (!format) return null;
+
+  const ispe = buffer.indexOf('ispe');
+  if (ispe === -1 || ispe + 16 > buffer.length) return null;
+
+  // 'ispe' is followed by 4 bytes of version/flags
+  return { format, width: buffer.readUInt32BE(ispe + 8), height: buffer.readUInt32BE(ispe + 12) };
+}
+
+function readSvgSize(text: string): ImageSize | null {
+  const tag = text.match(/<svg[^>]*>/i)?.[0];
+  if (!tag) return null;
+
+  const attribute = (name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1];
+  const width = parseFloat(attribute('width') || '');
+  const height = parseFloat(attribute('height') || '');
+  // Percentages and other relative units say nothing about intrinsic size
+  if (width > 0 && height > 0 && !/%/.test(attribute('width')! + attribute('height')!)) {
+    return { format: 'svg', width: Math.round(width), height: Math.round(height) };
+  }
+
+  const viewBox = attribute('viewBox')?.split(/[\s,]+/).map(Number);
+  if (viewBox && viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { format: 'svg', width: Math.round(viewBox[2]), height: Math.round(viewBox[3]) };
+  }
+
+  return null;
+}
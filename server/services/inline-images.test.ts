@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { describe, it } from 'node:test';
+import { DEFAULT_LAZY_LOAD_ATTRIBUTES } from '@shared/schema';
+import { storage } from '../storage';
+import { extractImages, parseHtml } from './html-extractor';
+import { payloadUrl, storeInlineReferences } from './inline-images';
+
+const PNG = Buffer.alloc(300, 7);
+const PNG_URI = `data:image/png;base64,${PNG.toString('base64')}`;
+const PNG_HASH = createHash('sha256').update(PNG).digest('hex');
+const GIF_URI = 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7';
+
+function extractOne(html: string) {
+  const [image] = extractImages(parseHtml(html, 'https://example.com/'), {
+    includeCssBackgrounds: false,
+    lazyLoadAttributes: DEFAULT_LAZY_LOAD_ATTRIBUTES
+  });
+  return image;
+}
+
+describe('storeInlineReferences', () => {
+  it('replaces a data: src everywhere it is referenced, including the implicit 1x candidate', async () => {
+    const stored = await storeInlineReferences(extractOne(`<img src="${PNG_URI}" alt="icon">`));
+
+    assert.ok(stored);
+    assert.equal(stored.image.imageUrl, payloadUrl(PNG_HASH));
+    assert.deepEqual(stored.image.sources?.[0].candidates.map(candidate => candidate.url), [payloadUrl(PNG_HASH)]);
+    assert.doesNotMatch(JSON.stringify(stored.image), /data:/);
+    assert.deepEqual(stored.inline, {
+      imageUrl: payloadUrl(PNG_HASH),
+      contentHash: PNG_HASH,
+      byteSize: PNG.length,
+      mimeType: 'image/png'
+    });
+    assert.equal((await storage.getImagePayload(PNG_HASH))?.byteSize, PNG.length);
+  });
+
+  it('replaces a data: placeholder and keeps the lazy URL as is', async () => {
+    const stored = await storeInlineReferences(extractOne(`<img src="${GIF_URI}" data-src="/photo.jpg">`));
+
+    assert.ok(stored);
+    assert.equal(stored.image.imageUrl, 'https://example.com/photo.jpg');
+    assert.match(stored.image.placeholderUrl ?? '', /^\/api\/image-payloads\/[0-9a-f]{64}$/);
+    assert.doesNotMatch(JSON.stringify(stored.image), /data:/);
+    assert.equal(stored.inline, null);
+  });
+
+  it('drops undecodable data: candidates and rejects an undecodable image', async () => {
+    const candidate = await storeInlineReferences(extractOne('<img src="/a.png" srcset="/a.png 1x, data:image/png;base64,%E0%A4%A 2x">'));
+    assert.deepEqual(candidate?.image.sources?.[0].candidates.map(c => c.url), ['https://example.com/a.png']);
+
+    assert.equal(await storeInlineReferences(extractOne('<img src="data:image/png;base64,%E0%A4%A">')), null);
+  });
+});
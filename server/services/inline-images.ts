@@ -0,0 +1,111 @@
+import { createHash } from 'crypto';
+import type { ImageSource } from '@shared/schema';
+import { storage } from '../storage';
+import type { ExtractedImage } from './html-extractor';
+
+export interface InlineImage {
+  imageUrl: string;
+  contentHash: string;
+  byteSize: number;
+  mimeType: string;
+}
+
+const DATA_URI_REGEX = /^data:([^,]*?),([\s\S]*)$/;
+
+export function isDataUri(url: string): boolean {
+  return url.slice(0, 5).toLowerCase() === 'data:';
+}
+
+export function svgToDataUri(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+export function payloadUrl(hash: string): string {
+  return `/api/image-payloads/${hash}`;
+}
+
+export function decodeDataUri(uri: string): { mimeType: string, data: Buffer } | null {
+  const match = uri.match(DATA_URI_REGEX);
+  if (!match) return null;
+
+  const params = match[1].split(';').map(part => part.trim());
+  const mimeType = (params[0] || 'text/plain').toLowerCase();
+  const isBase64 = params.slice(1).some(param => param.toLowerCase() === 'base64');
+
+  try {
+    const data = isBase64
+      ? Buffer.from(decodeURIComponent(match[2]).replace(/\s+/g, ''), 'base64')
+      : Buffer.from(decodeURIComponent(match[2]), 'utf-8');
+    return { mimeType, data };
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+}
+
+/**
+ * Stores the decoded body of a data: URI under its SHA-256 and returns the
+ * metadata to keep on the image record in place of the payload.
+ */
+export async function storeDataUri(uri: string): Promise<InlineImage | null> {
+  const decoded = decodeDataUri(uri);
+  if (!decoded) return null;
+
+  const contentHash = createHash('sha256').update(decoded.data).digest('hex');
+  await storage.saveImagePayload({
+    hash: contentHash,
+    mimeType: decoded.mimeType,
+    byteSize: decoded.data.length,
+    data: decoded.data.toString('base64')
+  });
+
+  return {
+    imageUrl: payloadUrl(contentHash),
+    contentHash,
+    byteSize: decoded.data.length,
+    mimeType: decoded.mimeType
+  };
+}
+
+/**
+ * Stores every data: URI an extracted image references (the image itself, its
+ * srcset candidates and its placeholder) and puts payload URLs in their place,
+ * so no payload ends up on the image record. Undecodable candidates and
+ * placeholders are dropped; returns null when the image's own URI is undecodable.
+ */
+export async function storeInlineReferences(image: ExtractedImage): Promise<{ image: ExtractedImage, inline: InlineImage | null } | null> {
+  const stored = new Map<string, InlineImage | null>();
+  const store = async (uri: string): Promise<string | null> => {
+    if (!stored.has(uri)) stored.set(uri, await storeDataUri(uri));
+    return stored.get(uri)?.imageUrl ?? null;
+  };
+  const replace = (url: string) => isDataUri(url) ? store(url) : Promise.resolve(url);
+
+  const imageUrl = await replace(image.imageUrl);
+  if (!imageUrl) return null;
+
+  let sources: ImageSource[] | null = null;
+  if (image.sources) {
+    sources = [];
+    for (const source of image.sources) {
+      const candidates: ImageSource['candidates'] = [];
+      for (const candidate of source.candidates) {
+        const url = await replace(candidate.url);
+        if (url) candidates.push({ ...candidate, url });
+      }
+      sources.push({ ...source, candidates });
+    }
+  }
+
+  const placeholderUrl = image.placeholderUrl && await replace(image.placeholderUrl);
+
+  let html = image.html;
+  stored.forEach((inline, uri) => {
+    if (inline) html = html.split(uri).join(inline.imageUrl);
+  });
+
+  return {
+    image: { ...image, imageUrl, sources, placeholderUrl, html },
+    inline: isDataUri(image.imageUrl) ? stored.get(image.imageUrl) ?? null : null
+  };
+}
@@ -0,0 +1,119 @@
+import { storage } from '../storage';
+import { type CrawlJob } from '@shared/schema';
+import { crawlerService } from './crawler';
+
+// Crawls allowed to run at once; further jobs wait in the queue as "pending"
+const MAX_CONCURRENT_CRAWLS = Math.max(1, parseInt(process.env.MAX_CONCURRENT_CRAWLS || '2', 10) || 2);
+
+// Whether jobs left running by a restart are picked up again or marked failed
+const RESUME_INTERRUPTED_CRAWLS = process.env.RESUME_INTERRUPTED_CRAWLS !== 'false';
+
+// Statuses each control action may be applied to
+const CANCELLABLE_STATUSES = ['pending', 'running', 'paused'];
+const PAUSABLE_STATUSES = ['pending', 'running'];
+const RESUMABLE_STATUSES = ['paused'];
+
+export type JobAction = 'cancel' | 'pause' | 'resume';
+
+/**
+ * Runs crawl jobs in FIFO order with a global concurrency cap. Pausing or
+ * cancelling a running job marks it straight away and asks the crawler to
+ * stop after its current page, keeping the frontier for a later resume.
+ */
+class JobScheduler {
+  private queue: string[] = [];
+  private running = new Set<string>();
+
+  constructor(private maxConcurrent: number) {}
+
+  enqueue(jobId: string): void {
+    if (this.running.has(jobId) || this.queue.includes(jobId)) return;
+    this.queue.push(jobId);
+    this.drain();
+  }
+
+  /**
+   * Nothing is running when the server starts, so "running" and "pending"
+   * jobs in storage were cut off by a restart. They resume from their saved
+   * frontier, or fail when RESUME_INTERRUPTED_CRAWLS=false.
+   */
+  async recoverInterruptedJobs(): Promise<void> {
+    const jobs = await storage.getCrawlJobs();
+    // getCrawlJobs is newest first; requeue in the order they were created
+    const interrupted = jobs.filter(job => job.status === 'running' || job.status === 'pending').reverse();
+
+    for (const job of interrupted) {
+      if (RESUME_INTERRUPTED_CRAWLS) {
+        console.log(`Resuming crawl ${job.id} interrupted by a restart`);
+        await storage.updateCrawlJob(job.id, { status: 'pending' });
+        this.enqueue(job.id);
+      } else {
+        await crawlerService.discardFrontier(job.id);
+        await storage.updateCrawlJob(job.id, {
+          status: 'failed',
+          error: 'Interrupted by a server restart',
+          currentPage: null,
+          completedAt: new Date()
+        });
+      }
+    }
+  }
+
+  canApply(action: JobAction, job: CrawlJob): boolean {
+    const allowed = action === 'cancel' ? CANCELLABLE_STATUSES
+      : action === 'pause' ? PAUSABLE_STATUSES
+      : RESUMABLE_STATUSES;
+    return allowed.includes(job.status);
+  }
+
+  async cancel(jobId: string): Promise<CrawlJob | undefined> {
+    if (this.running.has(jobId)) {
+      crawlerService.requestStop(jobId, 'cancel');
+    } else {
+      this.removeFromQueue(jobId);
+      await crawlerService.discardFrontier(jobId);
+    }
+    return storage.updateCrawlJob(jobId, { status: 'cancelled', currentPage: null, completedAt: new Date() });
+  }
+
+  async pause(jobId: string): Promise<CrawlJob | undefined> {
+    if (this.running.has(jobId)) {
+      crawlerService.requestStop(jobId, 'pause');
+    } else {
+      this.removeFromQueue(jobId);
+    }
+    return storage.updateCrawlJob(jobId, { status: 'paused' });
+  }
+
+  async resume(jobId: string): Promise<CrawlJob | undefined> {
+    // Paused while still finishing its current page: just let it carry on
+    if (this.running.has(jobId)) {
+      crawlerService.clearStopRequest(jobId);
+      return storage.updateCrawlJob(jobId, { status: 'running' });
+    }
+
+    const job = await storage.updateCrawlJob(jobId, { status: 'pending' });
+    this.enqueue(jobId);
+    return job;
+  }
+
+  private removeFromQueue(jobId: string): void {
+    this.queue = this.queue.filter(id => id !== jobId);
+  }
+
+  private drain(): void {
+    while (this.running.size < this.maxConcurrent && this.queue.length > 0) {
+      const jobId = this.queue.shift()!;
+      this.running.add(jobId);
+
+      crawlerService.startCrawl(jobId)
+        .catch(console.error)
+        .finally(() => {
+          this.running.delete(jobId);
+          this.drain();
+        });
+    }
+  }
+}
+
+export const jobScheduler = new JobScheduler(MAX_CONCURRENT_CRAWLS);
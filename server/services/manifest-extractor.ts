@@ -0,0 +1,91 @@
+import { fetchWithTimeout } from './http';
+import type { CrawlAuth } from './crawl-auth';
+import type { HostRateLimiter } from './rate-limiter';
+
+export interface ManifestIcon {
+  url: string;
+  sizes: string | null;
+  type: string | null;
+  purpose: string | null;
+  // The icon's entry in the manifest, kept as the image's HTML snippet
+  json: string;
+}
+
+export function parseManifestIcons(manifest: unknown, manifestUrl: string): ManifestIcon[] {
+  if (!manifest || typeof manifest !== 'object') return [];
+
+  const icons: ManifestIcon[] = [];
+  const record = manifest as Record<string, unknown>;
+  // Screenshots and shortcut icons are images the manifest declares too
+  const entries = [
+    ...asArray(record.icons),
+    ...asArray(record.screenshots),
+    ...asArray(record.shortcuts).flatMap(shortcut => asArray((shortcut as Record<string, unknown>)?.icons))
+  ];
+
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') continue;
+    const icon = entry as Record<string, unknown>;
+    if (typeof icon.src !== 'string' || !icon.src.trim()) continue;
+
+    let url: string;
+    try {
+      url = new URL(icon.src.trim(), manifestUrl).toString();
+    } catch {
+      continue;
+    }
+
+    icons.push({
+      url,
+      sizes: typeof icon.sizes === 'string' ? icon.sizes : null,
+      type: typeof icon.type === 'string' ? icon.type : null,
+      purpose: typeof icon.purpose === 'string' ? icon.purpose : null,
+      json: JSON.stringify(icon)
+    });
+  }
+
+  return icons;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Fetches each in-scope web app manifest once per crawl; most sites link
+ * the same manifest from every page.
+ */
+export class ManifestLoader {
+  private cache = new Map<string, Promise<ManifestIcon[]>>();
+
+  constructor(private isInScope: (url: string) => boolean, private timeout: number, private limiter?: HostRateLimiter, private auth?: CrawlAuth) {}
+
+  async load(manifestUrl: string): Promise<ManifestIcon[]> {
+    if (!this.isInScope(manifestUrl)) return [];
+
+    let pending = this.cache.get(manifestUrl);
+    if (!pending) {
+      pending = this.fetchManifest(manifestUrl);
+      this.cache.set(manifestUrl, pending);
+    }
+    return pending;
+  }
+
+  private async fetchManifest(manifestUrl: string): Promise<ManifestIcon[]> {
+    try {
+      await this.limiter?.wait(manifestUrl);
+      const response = await fetchWithTimeout(manifestUrl, this.timeout, {}, this.auth);
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        console.warn(`Failed to fetch manifest ${manifestUrl}: ${response.status}`);
+        return [];
+      }
+
+      return parseManifestIcons(await response.json(), manifestUrl);
+    } catch (error) {
+      console.warn(`Error loading manifest ${manifestUrl}:`, error);
+      return [];
+    }
+  }
+}
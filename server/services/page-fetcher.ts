@@ -0,0 +1,191 @@
+import { DEVICE_PROFILES, MAX_REDIRECTS, type CrawlJob, type DeviceProfile } from '@shared/schema';
+import type { CrawlAuth } from './crawl-auth';
+import { fetchWithTimeout, parseContentType } from './http';
+import { BrowserPageFetcher, findChromium } from './browser-fetcher';
+
+// On-screen measurements of an <img> taken in the browser, keyed by its current URL and every URL its markup references
+export interface RenderedImage {
+  naturalWidth: number | null;
+  naturalHeight: number | null;
+  renderedWidth: number | null;
+  renderedHeight: number | null;
+  devicePixelRatio: number;
+  // Transfer size from resource timing; only known for same-origin or Timing-Allow-Origin images
+  byteSize: number | null;
+}
+
+export interface FetchedPage {
+  status: number;
+  ok: boolean;
+  // Where the page ended up, and the URLs redirected from on the way
+  finalUrl: string;
+  redirectChain: string[];
+  contentType: string | null;
+  // Milliseconds until the response headers arrived
+  ttfb: number | null;
+  // Size of the body as served; null for failed responses
+  byteSize: number | null;
+  // Raw Retry-After header of a failed response
+  retryAfter: string | null;
+  // Response body for static fetches, the DOM after scripts ran for rendered ones
+  html: string;
+  // The HTML as served, before any scripts ran
+  sourceHtml: string;
+  renderedImages: Map<string, RenderedImage>;
+  // Image URLs the browser requested while rendering the page
+  networkImages: string[];
+}
+
+export type FetchMode = 'static' | 'browser';
+
+// Asked before each redirect is followed, and free to wait first to pace requests to the next
+// host. Declined, the fetch stops with the redirect response, its finalUrl the URL not fetched
+export type RedirectGuard = (url: string) => Promise<boolean>;
+
+/**
+ * Loads one page for the crawl engine, which extracts, stores and reports on
+ * it the same way whichever fetcher is in use. Static fetches only take the
+ * profile's user agent; the browser emulates its viewport and DPR as well.
+ */
+export interface PageFetcher {
+  readonly mode: FetchMode;
+  fetch(url: string, timeout: number, profile: DeviceProfile, beforeRedirect?: RedirectGuard): Promise<FetchedPage>;
+  close(): Promise<void>;
+}
+
+// fetch aborts with AbortError, puppeteer navigation with TimeoutError
+export function isTimeoutError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError');
+}
+
+// A redirect chain that loops back on itself or never ends; either way the page can't be reached
+export class RedirectError extends Error {
+  constructor(message: string, readonly redirectChain: string[], readonly finalUrl: string) {
+    super(message);
+    this.name = 'RedirectError';
+  }
+}
+
+/**
+ * Fetches pages with fetch, following redirects by hand so every hop is
+ * recorded and only gets the credentials and cookies meant for its own URL.
+ */
+export class StaticPageFetcher implements PageFetcher {
+  readonly mode = 'static';
+
+  constructor(private auth?: CrawlAuth) {}
+
+  async fetch(url: string, timeout: number, profile: DeviceProfile, beforeRedirect?: RedirectGuard): Promise<FetchedPage> {
+    const redirectChain: string[] = [];
+    let currentUrl = url;
+    let response: Response;
+    // Time spent on requests, so waits between hops count towards neither the timeout nor ttfb
+    let fetchTime = 0;
+
+    for (;;) {
+      // The timeout covers the whole chain, not each hop
+      const requestedAt = Date.now();
+      response = await fetchWithTimeout(currentUrl, Math.max(timeout - fetchTime, 1), {
+        headers: { 'User-Agent': profile.userAgent },
+        redirect: 'manual'
+      }, this.auth);
+      fetchTime += Date.now() - requestedAt;
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      await response.body?.cancel();
+      redirectChain.push(currentUrl);
+      const nextUrl = new URL(location, currentUrl).toString();
+      if (redirectChain.includes(nextUrl)) {
+        throw new RedirectError(`Redirect loop back to ${nextUrl}`, redirectChain, nextUrl);
+      }
+      if (redirectChain.length > MAX_REDIRECTS) {
+        throw new RedirectError(`Too many redirects (more than ${MAX_REDIRECTS})`, redirectChain, nextUrl);
+      }
+      const follow = !beforeRedirect || await beforeRedirect(nextUrl);
+      currentUrl = nextUrl;
+      if (!follow) break;
+    }
+
+    const metadata = {
+      status: response.status,
+      finalUrl: currentUrl,
+      redirectChain,
+      contentType: parseContentType(response.headers.get('content-type')),
+      ttfb: fetchTime
+    };
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return {
+        ...metadata,
+        ok: false,
+        byteSize: null,
+        retryAfter: response.headers.get('retry-after'),
+        html: '',
+        sourceHtml: '',
+        renderedImages: new Map(),
+        networkImages: []
+      };
+    }
+
+    const body = await response.arrayBuffer();
+    const html = new TextDecoder().decode(body);
+    return {
+      ...metadata,
+      ok: true,
+      byteSize: body.byteLength,
+      retryAfter: null,
+      html,
+      sourceHtml: html,
+      renderedImages: new Map(),
+      networkImages: []
+    };
+  }
+
+  async close(): Promise<void> {}
+}
+
+function staticFetcher(job: Pick<CrawlJob, 'loginFlow'>, auth: CrawlAuth): StaticPageFetcher {
+  if (job.loginFlow) {
+    console.warn(`Login flow for ${job.loginFlow.url} needs a browser; crawling without logging in`);
+  }
+  return new StaticPageFetcher(auth);
+}
+
+/**
+ * The fetcher for a crawl. JavaScript crawls fall back to static fetching,
+ * with a warning, when no Chromium is installed or it fails to launch. A
+ * browser runs the job's login flow before any page is fetched; a failed
+ * login fails the crawl rather than crawling logged out.
+ */
+export async function createPageFetcher(
+  job: Pick<CrawlJob, 'renderJavaScript' | 'autoScroll' | 'loginFlow' | 'timeout' | 'deviceProfile'>,
+  auth: CrawlAuth
+): Promise<PageFetcher> {
+  if (!job.renderJavaScript) return staticFetcher(job, auth);
+
+  const executablePath = findChromium();
+  if (!executablePath) {
+    console.warn('No Chromium found (set CHROMIUM_PATH to enable JavaScript rendering); fetching pages statically');
+    return staticFetcher(job, auth);
+  }
+
+  let fetcher: BrowserPageFetcher;
+  try {
+    fetcher = await BrowserPageFetcher.launch(executablePath, { autoScroll: job.autoScroll, auth });
+  } catch (error) {
+    console.warn(`Failed to launch Chromium at ${executablePath}; fetching pages statically:`, error);
+    return staticFetcher(job, auth);
+  }
+
+  if (job.loginFlow) {
+    try {
+      await fetcher.logIn(job.loginFlow, job.timeout || 60000, DEVICE_PROFILES[job.deviceProfile]);
+    } catch (error) {
+      await fetcher.close();
+      throw new Error(`Login at ${job.loginFlow.url} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return fetcher;
+}
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { HostRateLimiter } from './rate-limiter';
+
+// Start times of the waits, in fake milliseconds since the test began
+async function startTimes(limiter: HostRateLimiter, urls: string[]): Promise<number[]> {
+  const start = Date.now();
+  const times: number[] = [];
+  const waits = urls.map((url, i) => limiter.wait(url).then(() => { times[i] = Date.now() - start; }));
+  for (let i = 0; i < 100 && times.filter(time => time !== undefined).length < urls.length; i++) {
+    await Promise.resolve();
+    mock.timers.tick(50);
+    await Promise.resolve();
+  }
+  await Promise.all(waits);
+  return times;
+}
+
+describe('HostRateLimiter', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['setTimeout', 'Date'] }));
+  afterEach(() => mock.timers.reset());
+
+  it('spaces requests to one host by the requests-per-second budget', async () => {
+    const limiter = new HostRateLimiter(4);
+    const times = await startTimes(limiter, ['https://a.example/1', 'https://a.example/2', 'https://a.example/3']);
+    assert.deepEqual(times, [0, 250, 500]);
+  });
+
+  it('paces each host separately', async () => {
+    const limiter = new HostRateLimiter(1);
+    const times = await startTimes(limiter, ['https://a.example/1', 'https://b.example/1', 'https://a.example/2']);
+    assert.deepEqual(times, [0, 0, 1000]);
+  });
+
+  it('stretches the interval to a longer Crawl-delay', async () => {
+    const limiter = new HostRateLimiter(10);
+    limiter.setCrawlDelay('https://a.example/robots.txt', 2000);
+    const times = await startTimes(limiter, ['https://a.example/1', 'https://a.example/2', 'https://b.example/1']);
+    assert.deepEqual(times, [0, 2000, 0]);
+  });
+
+  it('holds a deferred host back', async () => {
+    const limiter = new HostRateLimiter(0);
+    limiter.deferHost('https://a.example/1', 3000);
+    const times = await startTimes(limiter, ['https://a.example/2', 'https://b.example/1']);
+    assert.deepEqual(times, [3000, 0]);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Spaces out requests to each host. Every host gets the crawl-wide
+ * requests-per-second budget, stretched by its robots.txt Crawl-delay and
+ * pushed back by Retry-After responses.
+ */
+export class HostRateLimiter {
+  // Earliest time the next request to each host may start
+  private nextSlots = new Map<string, number>();
+  private crawlDelays = new Map<string, number>();
+  private interval: number;
+
+  // `requestsPerSecond` of 0 means no limit beyond Crawl-delay and Retry-After
+  constructor(requestsPerSecond: number) {
+    this.interval = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+  }
+
+  async wait(url: string): Promise<void> {
+    const host = getHost(url);
+    if (!host) return;
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlots.get(host) ?? 0);
+    this.nextSlots.set(host, slot + Math.max(this.interval, this.crawlDelays.get(host) ?? 0));
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+
+  setCrawlDelay(url: string, delay: number): void {
+    const host = getHost(url);
+    if (host) this.crawlDelays.set(host, delay);
+  }
+
+  // Holds back every request to the host until `delay` milliseconds from now
+  deferHost(url: string, delay: number): void {
+    const host = getHost(url);
+    if (!host) return;
+    this.nextSlots.set(host, Math.max(this.nextSlots.get(host) ?? 0, Date.now() + delay));
+  }
+}
+
+function getHost(url: string): string | null {
+  try {
+    return new URL(url).host;
+  } catch {
+    return null;
+  }
+}
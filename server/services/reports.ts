@@ -0,0 +1,200 @@
+import { type BrokenImage, type CrawledImage, type CrawledPage, type DeviceComparisonFailure, type DeviceImageDiffPage, type DeviceProfileName, type ImageHost, type RedirectChain, type SitemapImage, type SitemapImagePage } from '@shared/schema';
+import type { UrlNormalizer } from './url-normalizer';
+
+// An image is broken when the probe got a 4xx/5xx or no response at all
+export function isBrokenImage(image: CrawledImage): boolean {
+  return (image.httpStatus !== null && image.httpStatus >= 400) || image.probeError !== null;
+}
+
+export function getFailureReason(image: CrawledImage): string {
+  if (image.httpStatus !== null && image.httpStatus >= 400) return `HTTP ${image.httpStatus}`;
+  if (image.probeError === 'timeout') return 'Timeout';
+  if (image.probeError?.startsWith('dns:')) return 'DNS failure';
+  return image.probeError || 'Unknown error';
+}
+
+// Groups broken image records by URL so each breakage is listed once with all its referencing pages
+export function buildBrokenImageReport(images: CrawledImage[]): BrokenImage[] {
+  const byUrl = new Map<string, BrokenImage>();
+
+  for (const image of images) {
+    if (!isBrokenImage(image)) continue;
+
+    let entry = byUrl.get(image.imageUrl);
+    if (!entry) {
+      entry = {
+        imageUrl: image.imageUrl,
+        finalUrl: image.finalUrl,
+        httpStatus: image.httpStatus,
+        reason: getFailureReason(image),
+        references: []
+      };
+      byUrl.set(image.imageUrl, entry);
+    }
+
+    entry.references.push({
+      imageId: image.id,
+      pageUrl: image.pageUrl,
+      imgTagHtml: image.imgTagHtml
+    });
+  }
+
+  return Array.from(byUrl.values()).sort((a, b) => b.references.length - a.references.length);
+}
+
+// Compares each page's <image:image> entries with the images crawled from it,
+// covering only pages the image sitemap mentions. Sitemap URLs are matched the
+// way the crawl stored the page: normalized, and under the URL it redirected to
+export function buildSitemapImageReport(
+  sitemapImages: SitemapImage[],
+  images: CrawledImage[],
+  pages: CrawledPage[],
+  normalizeUrl: UrlNormalizer
+): SitemapImagePage[] {
+  const redirectTargets = new Map(pages
+    .filter(page => page.finalUrl)
+    .map(page => [page.url, normalizeUrl(page.finalUrl!)]));
+  const crawledUrlOf = (pageUrl: string) => {
+    const url = normalizeUrl(pageUrl);
+    return redirectTargets.get(url) ?? url;
+  };
+
+  const listedByPage = new Map<string, Set<string>>();
+  for (const entry of sitemapImages) {
+    const listed = listedByPage.get(entry.pageUrl) || new Set<string>();
+    listed.add(entry.imageUrl);
+    listedByPage.set(entry.pageUrl, listed);
+  }
+  const listedCrawledUrls = new Set(Array.from(listedByPage.keys()).map(crawledUrlOf));
+
+  const foundByPage = new Map<string, Set<string>>();
+  for (const image of images) {
+    if (!listedCrawledUrls.has(image.pageUrl)) continue;
+    const found = foundByPage.get(image.pageUrl) || new Set<string>();
+    found.add(image.imageUrl);
+    foundByPage.set(image.pageUrl, found);
+  }
+
+  return Array.from(listedByPage.entries()).map(([pageUrl, listed]) => {
+    const found = foundByPage.get(crawledUrlOf(pageUrl)) || new Set<string>();
+    return {
+      pageUrl,
+      matched: Array.from(listed).filter(url => found.has(url)),
+      missingFromPage: Array.from(listed).filter(url => !found.has(url)),
+      missingFromSitemap: Array.from(found).filter(url => !listed.has(url))
+    };
+  });
+}
+
+// Unique images and referencing pages per serving host, third-party hosts first;
+// inline images have no host and are left out
+export function buildImageHostReport(images: CrawledImage[]): ImageHost[] {
+  const byHost = new Map<string, { thirdParty: boolean; imageUrls: Set<string>; pageUrls: Set<string> }>();
+
+  for (const image of images) {
+    if (!image.imageHost) continue;
+
+    let entry = byHost.get(image.imageHost);
+    if (!entry) {
+      entry = { thirdParty: !!image.thirdParty, imageUrls: new Set(), pageUrls: new Set() };
+      byHost.set(image.imageHost, entry);
+    }
+    entry.imageUrls.add(image.imageUrl);
+    entry.pageUrls.add(image.pageUrl);
+  }
+
+  return Array.from(byHost.entries())
+    .map(([host, entry]) => ({
+      host,
+      thirdParty: entry.thirdParty,
+      imageCount: entry.imageUrls.size,
+      pageCount: entry.pageUrls.size
+    }))
+    .sort((a, b) => Number(b.thirdParty) - Number(a.thirdParty) || b.imageCount - a.imageCount);
+}
+
+// Pages of a compare crawl the second device failed to fetch, under the URL their images are
+// stored with: the page redirected to, normalized as the crawl did
+export function buildDeviceComparisonFailures(pages: CrawledPage[], normalizeUrl: UrlNormalizer): DeviceComparisonFailure[] {
+  return pages
+    .filter(page => page.outcome === 'crawled' && page.comparisonError)
+    .map(page => ({ pageUrl: normalizeUrl(page.finalUrl ?? page.url), error: page.comparisonError! }));
+}
+
+// Per page, the images only one device of a compare crawl was served; pages with the most
+// differences come first. Failed comparisons are left out rather than read as "no images"
+export function buildDeviceImageDiffReport(
+  images: CrawledImage[],
+  primaryProfile: DeviceProfileName,
+  compareProfile: DeviceProfileName,
+  failures: DeviceComparisonFailure[] = []
+): DeviceImageDiffPage[] {
+  const failedPageUrls = new Set(failures.map(failure => failure.pageUrl));
+  const byPage = new Map<string, { primary: Set<string>; compare: Set<string> }>();
+
+  for (const image of images) {
+    if (failedPageUrls.has(image.pageUrl)) continue;
+
+    let entry = byPage.get(image.pageUrl);
+    if (!entry) {
+      entry = { primary: new Set(), compare: new Set() };
+      byPage.set(image.pageUrl, entry);
+    }
+    if (image.deviceProfile === primaryProfile) entry.primary.add(image.imageUrl);
+    else if (image.deviceProfile === compareProfile) entry.compare.add(image.imageUrl);
+  }
+
+  return Array.from(byPage.entries())
+    .map(([pageUrl, { primary, compare }]) => ({
+      pageUrl,
+      sharedCount: Array.from(primary).filter(url => compare.has(url)).length,
+      primaryOnly: Array.from(primary).filter(url => !compare.has(url)),
+      compareOnly: Array.from(compare).filter(url => !primary.has(url))
+    }))
+    .sort((a, b) =>
+      (b.primaryOnly.length + b.compareOnly.length) - (a.primaryOnly.length + a.compareOnly.length)
+    );
+}
+
+// Pages behind redirect loops or more than maxHops redirects, longest chains first
+export function buildRedirectChainReport(pages: CrawledPage[], maxHops: number): RedirectChain[] {
+  return pages
+    .map(page => ({
+      url: page.url,
+      finalUrl: page.finalUrl,
+      hops: page.redirectChain,
+      // A loop's finalUrl is the URL it came back to
+      loop: !!page.finalUrl && page.redirectChain.includes(page.finalUrl),
+      outcome: page.outcome
+    }))
+    .filter(chain => chain.loop || chain.hops.length > maxHops)
+    .sort((a, b) => Number(b.loop) - Number(a.loop) || b.hops.length - a.hops.length);
+}
+
+interface RenderedSize {
+  naturalWidth: number | null;
+  naturalHeight: number | null;
+  renderedWidth: number | null;
+  renderedHeight: number | null;
+  devicePixelRatio: number | null;
+  byteSize: number | null;
+}
+
+/**
+ * Estimates how many bytes would be saved by serving the image at the size it
+ * is displayed, scaling the file size by the share of surplus pixels. Returns
+ * null when a measurement is missing and 0 when the image isn't oversized.
+ */
+export function estimateWastedBytes(image: RenderedSize): number | null {
+  const { naturalWidth, naturalHeight, renderedWidth, renderedHeight, byteSize } = image;
+  if (!naturalWidth || !naturalHeight || renderedWidth === null || renderedHeight === null || byteSize === null) {
+    return null;
+  }
+
+  // Hidden (0x0) images count as entirely wasted
+  const dpr = image.devicePixelRatio || 1;
+  const neededPixels = Math.min(renderedWidth * dpr, naturalWidth) * Math.min(renderedHeight * dpr, naturalHeight);
+  const naturalPixels = naturalWidth * naturalHeight;
+
+  return Math.round(byteSize * (1 - neededPixels / naturalPixels));
+}
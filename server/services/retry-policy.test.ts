@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RedirectError } from './page-fetcher';
+import { RetryPolicy, classifyError, classifyStatus } from './retry-policy';
+
+function networkError(code: string): Error {
+  return new TypeError('fetch failed', { cause: Object.assign(new Error(code), { code }) });
+}
+
+describe('classifyStatus', () => {
+  it('retries 408, 429 and 5xx only', () => {
+    assert.deepEqual([408, 429, 500, 503, 400, 403, 404, 410].map(status => classifyStatus(status).retryable),
+      [true, true, true, true, false, false, false, false]);
+    assert.equal(classifyStatus(503).reason, 'HTTP 503');
+  });
+});
+
+describe('classifyError', () => {
+  it('retries timeouts', () => {
+    const abort = new DOMException('This operation was aborted', 'AbortError');
+    assert.deepEqual(classifyError(abort, 5000), { retryable: true, reason: 'Timed out after 5000ms' });
+  });
+
+  it('retries dropped connections and gives up on unknown hosts', () => {
+    assert.deepEqual(classifyError(networkError('ECONNRESET'), 5000), { retryable: true, reason: 'ECONNRESET' });
+    assert.deepEqual(classifyError(networkError('ENOTFOUND'), 5000), { retryable: false, reason: 'DNS lookup failed (NXDOMAIN)' });
+    assert.equal(classifyError(networkError('CERT_HAS_EXPIRED'), 5000).retryable, false);
+  });
+
+  it('reads Chromium net errors from browser navigation failures', () => {
+    assert.equal(classifyError(new Error('net::ERR_CONNECTION_RESET at https://example.com'), 5000).retryable, true);
+    assert.deepEqual(classifyError(new Error('net::ERR_NAME_NOT_RESOLVED at https://example.com'), 5000),
+      { retryable: false, reason: 'DNS lookup failed (NXDOMAIN)' });
+    assert.equal(classifyError(new Error('net::ERR_CERT_AUTHORITY_INVALID at https://example.com'), 5000).retryable, false);
+  });
+
+  it('never retries redirect loops', () => {
+    const loop = new RedirectError('Redirect loop back to https://example.com/a', ['https://example.com/a', 'https://example.com/b'], 'https://example.com/a');
+    assert.deepEqual(classifyError(loop, 5000), { retryable: false, reason: loop.message });
+  });
+
+  it('retries anything else', () => {
+    assert.deepEqual(classifyError(new Error('Target closed'), 5000), { retryable: true, reason: 'Target closed' });
+  });
+});
+
+describe('RetryPolicy', () => {
+  it('retries retryable failures until the attempts run out', () => {
+    const policy = new RetryPolicy(3);
+    assert.equal(policy.shouldRetry(1, { retryable: true, reason: 'HTTP 503' }), true);
+    assert.equal(policy.shouldRetry(2, { retryable: true, reason: 'HTTP 503' }), true);
+    assert.equal(policy.shouldRetry(3, { retryable: true, reason: 'HTTP 503' }), false);
+    assert.equal(policy.shouldRetry(1, { retryable: false, reason: 'HTTP 404' }), false);
+  });
+
+  it('doubles the delay per attempt with equal jitter, up to the cap', (t) => {
+    const policy = new RetryPolicy(10, 1000, 5000);
+    const random = t.mock.method(Math, 'random', () => 0);
+    assert.deepEqual([1, 2, 3, 4].map(attempt => policy.delayAfter(attempt)), [500, 1000, 2000, 2500]);
+
+    random.mock.mockImplementation(() => 0.999999);
+    assert.deepEqual([1, 2, 3, 4].map(attempt => policy.delayAfter(attempt)), [1000, 2000, 4000, 5000]);
+  });
+});
@@ -0,0 +1,87 @@
+import { RedirectError, isTimeoutError } from './page-fetcher';
+
+// Backoff before the first retry; it doubles with every further retry, up to the cap
+const BASE_DELAY = 1000;
+const MAX_DELAY = 30 * 1000;
+
+// Connection-level failures worth another try: the connection dropped or the resolver hiccuped
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT'
+]);
+
+// Chromium's equivalents, from puppeteer navigation errors
+const RETRYABLE_NET_ERRORS = new Set([
+  'net::ERR_CONNECTION_RESET',
+  'net::ERR_CONNECTION_REFUSED',
+  'net::ERR_CONNECTION_CLOSED',
+  'net::ERR_EMPTY_RESPONSE',
+  'net::ERR_NETWORK_CHANGED',
+  'net::ERR_TIMED_OUT'
+]);
+
+export interface FetchFailure {
+  retryable: boolean;
+  reason: string;
+}
+
+// 408, 429 and 5xx may clear up; any other 4xx will come back the same
+export function classifyStatus(status: number): FetchFailure {
+  return {
+    retryable: status === 408 || status === 429 || status >= 500,
+    reason: `HTTP ${status}`
+  };
+}
+
+function errorCode(error: Error): string | null {
+  const code = (error.cause as { code?: unknown } | undefined)?.code ?? (error as { code?: unknown }).code;
+  return typeof code === 'string' ? code : null;
+}
+
+/**
+ * Classifies an error thrown while fetching a page. Timeouts and dropped
+ * connections are retryable; a host that doesn't resolve (NXDOMAIN),
+ * redirect loops, TLS failures and other network errors are permanent.
+ * Anything else the fetcher throws, like a crashed browser tab, is retried.
+ */
+export function classifyError(error: unknown, timeout: number): FetchFailure {
+  if (isTimeoutError(error)) return { retryable: true, reason: `Timed out after ${timeout}ms` };
+  if (!(error instanceof Error)) return { retryable: true, reason: String(error) };
+  if (error instanceof RedirectError) return { retryable: false, reason: error.message };
+
+  const code = errorCode(error);
+  const netError = error.message.match(/net::ERR_[A-Z_]+/)?.[0] ?? null;
+  if (code === 'ENOTFOUND' || netError === 'net::ERR_NAME_NOT_RESOLVED') {
+    return { retryable: false, reason: 'DNS lookup failed (NXDOMAIN)' };
+  }
+  if (code) return { retryable: RETRYABLE_ERROR_CODES.has(code), reason: code };
+  if (netError) return { retryable: RETRYABLE_NET_ERRORS.has(netError), reason: netError };
+  return { retryable: true, reason: error.message };
+}
+
+/**
+ * How often and how patiently a failed fetch is tried again. Delays grow
+ * exponentially with "equal jitter" (half fixed, half random), so workers
+ * that failed on the same host together don't retry in lockstep.
+ */
+export class RetryPolicy {
+  constructor(private maxAttempts: number, private baseDelay = BASE_DELAY, private maxDelay = MAX_DELAY) {}
+
+  // Attempts are numbered from 1
+  shouldRetry(attempt: number, failure: FetchFailure): boolean {
+    return failure.retryable && attempt < this.maxAttempts;
+  }
+
+  // Milliseconds to wait after the given attempt failed
+  delayAfter(attempt: number): number {
+    const ceiling = Math.min(this.maxDelay, this.baseDelay * 2 ** (attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+}
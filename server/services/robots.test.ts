@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { HostRateLimiter } from './rate-limiter';
+import { RobotsLoader, parseRobotsTxt } from './robots';
+
+describe('parseRobotsTxt', () => {
+  const robots = parseRobotsTxt([
+    'User-agent: *',
+    'Disallow: /',
+    '',
+    'User-agent: OtherBot',
+    'User-agent: SiteImageCrawler',
+    'Disallow: /private',
+    'Allow: /private/press',
+    'Disallow: /*.pdf$',
+    'Crawl-delay: 2.5 # seconds',
+    '',
+    'Sitemap: https://example.com/sitemap.xml'
+  ].join('\n'));
+
+  it('applies the group naming our product token instead of "*"', () => {
+    assert.equal(robots.isAllowed('https://example.com/shop'), true);
+    assert.equal(robots.crawlDelay, 2.5);
+  });
+
+  it('lets the longest matching pattern win', () => {
+    assert.equal(robots.isAllowed('https://example.com/private/team'), false);
+    assert.equal(robots.isAllowed('https://example.com/private/press/2024'), true);
+    assert.equal(robots.isAllowed('https://example.com/privateer'), false);
+  });
+
+  it('supports wildcards and end anchors', () => {
+    assert.equal(robots.isAllowed('https://example.com/docs/guide.pdf'), false);
+    assert.equal(robots.isAllowed('https://example.com/docs/guide.pdf?download=1'), true);
+  });
+
+  it('collects Sitemap lines from outside any group', () => {
+    assert.deepEqual(robots.sitemaps, ['https://example.com/sitemap.xml']);
+  });
+
+  it('falls back to the "*" group and always allows robots.txt itself', () => {
+    const others = parseRobotsTxt('User-agent: *\nDisallow: /\n');
+    assert.equal(others.isAllowed('https://example.com/shop'), false);
+    assert.equal(others.isAllowed('https://example.com/robots.txt'), true);
+    assert.equal(others.crawlDelay, null);
+  });
+
+  it('lets Allow win ties and ignores empty Disallow lines', () => {
+    const tie = parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page\nDisallow:\n');
+    assert.equal(tie.isAllowed('https://example.com/page'), true);
+  });
+});
+
+describe('RobotsLoader', () => {
+  const responses = new Map<string, { status: number, body: string }>();
+  let server: http.Server;
+  let origin: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const response = responses.get(req.headers.host ?? '') ?? { status: 404, body: '' };
+      res.writeHead(response.status, { 'Content-Type': 'text/plain' }).end(response.body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  // Records the Crawl-delay handed to the limiter per robots.txt URL
+  function recordingLimiter(): { limiter: HostRateLimiter, delays: Map<string, number> } {
+    const limiter = new HostRateLimiter(0);
+    const delays = new Map<string, number>();
+    limiter.setCrawlDelay = (url, delay) => { delays.set(url, delay); };
+    return { limiter, delays };
+  }
+
+  it('passes Crawl-delay to the limiter only when obeying robots.txt', async () => {
+    responses.set(new URL(origin).host, { status: 200, body: 'User-agent: *\nCrawl-delay: 3\nSitemap: /map.xml\n' });
+
+    const obeying = recordingLimiter();
+    await new RobotsLoader(5000, obeying.limiter).load(`${origin}/shop`);
+    assert.deepEqual(Array.from(obeying.delays), [[`${origin}/robots.txt`, 3000]]);
+
+    const ignoring = recordingLimiter();
+    const rules = await new RobotsLoader(5000, ignoring.limiter, undefined, false).load(`${origin}/shop`);
+    assert.equal(ignoring.delays.size, 0);
+    assert.deepEqual(rules.sitemaps, ['/map.xml']);
+  });
+
+  it('allows everything on a 4xx and nothing on a 5xx', async () => {
+    responses.set(new URL(origin).host, { status: 404, body: '' });
+    assert.equal((await new RobotsLoader(5000).load(`${origin}/shop`)).isAllowed(`${origin}/shop`), true);
+
+    responses.set(new URL(origin).host, { status: 503, body: '' });
+    assert.equal((await new RobotsLoader(5000).load(`${origin}/shop`)).isAllowed(`${origin}/shop`), false);
+  });
+});
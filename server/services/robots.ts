@@ -0,0 +1,163 @@
+import { fetchWithTimeout, ROBOTS_USER_AGENT } from './http';
+import type { CrawlAuth } from './crawl-auth';
+import type { HostRateLimiter } from './rate-limiter';
+
+export interface RobotsRules {
+  isAllowed(url: string): boolean;
+  // Seconds between requests asked for by the group that applies to us
+  crawlDelay: number | null;
+  sitemaps: string[];
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+const ALLOW_ALL: RobotsRules = { isAllowed: () => true, crawlDelay: null, sitemaps: [] };
+const DISALLOW_ALL: RobotsRules = { isAllowed: () => false, crawlDelay: null, sitemaps: [] };
+
+/**
+ * Parses robots.txt following RFC 9309: the groups naming our product token
+ * apply (falling back to "*"), and the longest matching Allow/Disallow
+ * pattern wins, with Allow winning ties.
+ */
+export function parseRobotsTxt(text: string, userAgent: string = ROBOTS_USER_AGENT): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || current.rules.length > 0 || current.crawlDelay !== null) {
+        current = { userAgents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+    } else if (key === 'allow' || key === 'disallow') {
+      // An empty Disallow allows everything, so it adds no rule
+      if (current && value) {
+        current.rules.push({ allow: key === 'allow', pattern: value, regex: patternToRegex(value) });
+      }
+    } else if (key === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (current && !Number.isNaN(delay) && delay >= 0) current.crawlDelay = delay;
+    } else if (key === 'sitemap' && value) {
+      sitemaps.push(value);
+    }
+  }
+
+  const token = userAgent.toLowerCase();
+  let matching = groups.filter(group => group.userAgents.some(agent => agent === token || agent.startsWith(`${token}/`)));
+  if (matching.length === 0) {
+    matching = groups.filter(group => group.userAgents.includes('*'));
+  }
+
+  const rules = matching.flatMap(group => group.rules);
+  const crawlDelay = matching.find(group => group.crawlDelay !== null)?.crawlDelay ?? null;
+
+  return {
+    crawlDelay,
+    sitemaps,
+    isAllowed(url: string): boolean {
+      let path: string;
+      try {
+        const parsed = new URL(url);
+        path = parsed.pathname + parsed.search;
+      } catch {
+        return true;
+      }
+      if (path === '/robots.txt') return true;
+
+      let winner: RobotsRule | null = null;
+      for (const rule of rules) {
+        if (!rule.regex.test(path)) continue;
+        if (!winner
+          || rule.pattern.length > winner.pattern.length
+          || (rule.pattern.length === winner.pattern.length && rule.allow)) {
+          winner = rule;
+        }
+      }
+      return winner ? winner.allow : true;
+    }
+  };
+}
+
+// "*" matches any run of characters and a trailing "$" anchors the end
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Fetches robots.txt once per origin for a crawl and, when the crawl obeys
+ * it, feeds its Crawl-delay to the rate limiter.
+ */
+export class RobotsLoader {
+  private cache = new Map<string, Promise<RobotsRules>>();
+
+  constructor(
+    private timeout: number,
+    private limiter?: HostRateLimiter,
+    private auth?: CrawlAuth,
+    private obeyCrawlDelay = true
+  ) {}
+
+  async load(url: string): Promise<RobotsRules> {
+    const origin = new URL(url).origin;
+    let pending = this.cache.get(origin);
+    if (!pending) {
+      pending = this.fetchRobots(origin);
+      this.cache.set(origin, pending);
+    }
+    return pending;
+  }
+
+  private async fetchRobots(origin: string): Promise<RobotsRules> {
+    const robotsUrl = `${origin}/robots.txt`;
+
+    try {
+      await this.limiter?.wait(robotsUrl);
+      const response = await fetchWithTimeout(robotsUrl, this.timeout, {}, this.auth);
+
+      // RFC 9309: a missing robots.txt allows everything, an unreachable one nothing
+      if (response.status >= 400 && response.status < 500) {
+        await response.body?.cancel();
+        return ALLOW_ALL;
+      }
+      if (!response.ok) {
+        await response.body?.cancel();
+        console.warn(`robots.txt at ${robotsUrl} returned ${response.status}; treating the site as disallowed`);
+        return DISALLOW_ALL;
+      }
+
+      const rules = parseRobotsTxt(await response.text());
+      if (this.obeyCrawlDelay && rules.crawlDelay !== null) {
+        this.limiter?.setCrawlDelay(robotsUrl, rules.crawlDelay * 1000);
+      }
+      return rules;
+    } catch (error) {
+      console.warn(`Error loading ${robotsUrl}; treating the site as disallowed:`, error);
+      return DISALLOW_ALL;
+    }
+  }
+}
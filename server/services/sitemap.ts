@@ -0,0 +1,126 @@
+import { gunzipSync } from 'zlib';
+import { parseDocument, DomUtils } from 'htmlparser2';
+import type { Element } from 'domhandler';
+import { fetchWithTimeout } from './http';
+import type { CrawlAuth } from './crawl-auth';
+import type { HostRateLimiter } from './rate-limiter';
+
+export interface SitemapUrl {
+  url: string;
+  // <image:loc> entries from the image sitemap extension
+  images: string[];
+}
+
+export interface ParsedSitemap {
+  urls: SitemapUrl[];
+  // Child sitemaps listed by a sitemap index
+  sitemaps: string[];
+}
+
+// Caps that keep a runaway sitemap index from swamping the crawl
+const MAX_SITEMAPS = 50;
+const MAX_SITEMAP_URLS = 50000;
+
+export function parseSitemap(xml: string, sitemapUrl: string): ParsedSitemap {
+  const document = parseDocument(xml, { xmlMode: true });
+  const urls: SitemapUrl[] = [];
+  const sitemaps: string[] = [];
+
+  for (const entry of findByLocalName(document.children, 'url')) {
+    const loc = resolveLoc(getChildText(entry, 'loc'), sitemapUrl);
+    if (!loc) continue;
+
+    const images = findByLocalName(entry.children, 'image')
+      .map(image => resolveLoc(getChildText(image, 'loc'), sitemapUrl))
+      .filter((url): url is string => !!url);
+    urls.push({ url: loc, images });
+  }
+
+  for (const entry of findByLocalName(document.children, 'sitemap')) {
+    const loc = resolveLoc(getChildText(entry, 'loc'), sitemapUrl);
+    if (loc) sitemaps.push(loc);
+  }
+
+  return { urls, sitemaps };
+}
+
+// Sitemaps are namespaced ("image:image", "ns0:url"), so match on the local part
+function findByLocalName(nodes: Element['children'], name: string): Element[] {
+  return DomUtils.findAll(element => element.name.split(':').pop()!.toLowerCase() === name, nodes);
+}
+
+function getChildText(element: Element, name: string): string | null {
+  const child = element.children.find(
+    (node): node is Element => node.type === 'tag' && (node as Element).name.split(':').pop()!.toLowerCase() === name
+  );
+  return child ? DomUtils.textContent(child).trim() : null;
+}
+
+function resolveLoc(loc: string | null, sitemapUrl: string): string | null {
+  if (!loc) return null;
+  try {
+    return new URL(loc, sitemapUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collects page URLs from a site's sitemaps: those named in robots.txt plus
+ * /sitemap.xml, following sitemap indexes and unpacking gzipped files.
+ */
+export class SitemapLoader {
+  constructor(private timeout: number, private limiter?: HostRateLimiter, private auth?: CrawlAuth) {}
+
+  async load(targetUrl: string, robotsSitemaps: string[]): Promise<SitemapUrl[]> {
+    const pending = Array.from(new Set([...robotsSitemaps, new URL('/sitemap.xml', targetUrl).toString()]));
+    const seen = new Set<string>();
+    const urls = new Map<string, SitemapUrl>();
+
+    while (pending.length > 0 && seen.size < MAX_SITEMAPS && urls.size < MAX_SITEMAP_URLS) {
+      const sitemapUrl = pending.shift()!;
+      if (seen.has(sitemapUrl)) continue;
+      seen.add(sitemapUrl);
+
+      const sitemap = await this.fetchSitemap(sitemapUrl);
+      pending.push(...sitemap.sitemaps);
+
+      for (const entry of sitemap.urls) {
+        const existing = urls.get(entry.url);
+        if (existing) {
+          existing.images.push(...entry.images.filter(image => !existing.images.includes(image)));
+        } else if (urls.size < MAX_SITEMAP_URLS) {
+          urls.set(entry.url, entry);
+        }
+      }
+    }
+
+    console.log(`Read ${urls.size} URLs from ${seen.size} sitemaps for ${targetUrl}`);
+    return Array.from(urls.values());
+  }
+
+  private async fetchSitemap(sitemapUrl: string): Promise<ParsedSitemap> {
+    try {
+      await this.limiter?.wait(sitemapUrl);
+      const response = await fetchWithTimeout(sitemapUrl, this.timeout, {}, this.auth);
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        // A missing /sitemap.xml is normal, so only log failures worth knowing about
+        if (response.status !== 404) console.warn(`Failed to fetch sitemap ${sitemapUrl}: ${response.status}`);
+        return { urls: [], sitemaps: [] };
+      }
+
+      let body = Buffer.from(await response.arrayBuffer());
+      // .xml.gz files arrive still compressed; Content-Encoding: gzip was already undone by fetch
+      if (body[0] === 0x1f && body[1] === 0x8b) {
+        body = gunzipSync(body);
+      }
+
+      return parseSitemap(body.toString('utf-8'), sitemapUrl);
+    } catch (error) {
+      console.warn(`Error loading sitemap ${sitemapUrl}:`, error);
+      return { urls: [], sitemaps: [] };
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_URL_NORMALIZATION } from '@shared/schema';
+import { createUrlNormalizer } from './url-normalizer';
+
+describe('createUrlNormalizer', () => {
+  const normalize = createUrlNormalizer(DEFAULT_URL_NORMALIZATION);
+
+  it('drops fragments, default ports and host case', () => {
+    assert.equal(normalize('HTTPS://Example.COM:443/shop#reviews'), 'https://example.com/shop');
+  });
+
+  it('strips tracking parameters and sorts the rest', () => {
+    assert.equal(
+      normalize('https://example.com/shop?utm_source=news&page=2&gclid=abc&color=red&UTM_Medium=email'),
+      'https://example.com/shop?color=red&page=2'
+    );
+    assert.equal(normalize('https://example.com/shop?fbclid=abc'), 'https://example.com/shop');
+  });
+
+  it('leaves the query as written when nothing changes', () => {
+    assert.equal(normalize('https://example.com/search?q=a%20b'), 'https://example.com/search?q=a%20b');
+  });
+
+  it('strips trailing slashes except on the root', () => {
+    assert.equal(normalize('https://example.com/shop//'), 'https://example.com/shop');
+    assert.equal(normalize('https://example.com/'), 'https://example.com/');
+  });
+
+  it('adds trailing slashes to paths without a file name', () => {
+    const addSlash = createUrlNormalizer({ ...DEFAULT_URL_NORMALIZATION, trailingSlash: 'add' });
+    assert.equal(addSlash('https://example.com/shop'), 'https://example.com/shop/');
+    assert.equal(addSlash('https://example.com/feed.xml'), 'https://example.com/feed.xml');
+  });
+
+  it('keeps path case and tracking parameters unless asked', () => {
+    const keep = createUrlNormalizer({
+      stripTrackingParams: false,
+      sortQueryParams: false,
+      trailingSlash: 'keep',
+      lowercasePath: false,
+      honorCanonical: false
+    });
+    assert.equal(keep('https://example.com/Shop/?utm_source=x&b=1&a=2'), 'https://example.com/Shop/?utm_source=x&b=1&a=2');
+
+    const lowercase = createUrlNormalizer({ ...DEFAULT_URL_NORMALIZATION, lowercasePath: true });
+    assert.equal(lowercase('https://example.com/Shop/Shoes'), 'https://example.com/shop/shoes');
+  });
+
+  it('returns unparseable URLs unchanged', () => {
+    assert.equal(normalize('not a url'), 'not a url');
+  });
+});
@@ -0,0 +1,53 @@
+import type { UrlNormalization } from '@shared/schema';
+
+// Query parameters that only carry campaign or click attribution
+const TRACKING_PARAM_PREFIXES = ['utm_'];
+const TRACKING_PARAMS = ['gclid', 'dclid', 'gbraid', 'wbraid', 'fbclid', 'msclkid', 'yclid', 'mc_cid', 'mc_eid', '_ga', '_gl', 'igshid'];
+
+export type UrlNormalizer = (url: string) => string;
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return TRACKING_PARAMS.includes(lower) || TRACKING_PARAM_PREFIXES.some(prefix => lower.startsWith(prefix));
+}
+
+/**
+ * Maps the spellings of a page URL onto one frontier key. The URL parser
+ * already lowercases the host and drops default ports; fragments are always
+ * removed, and the options cover the rules that depend on the site.
+ */
+export function createUrlNormalizer(options: UrlNormalization): UrlNormalizer {
+  return (url: string) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return url;
+    }
+
+    parsed.hash = '';
+
+    // Only rewrite the query when something changes, since searchParams re-encodes it
+    if (options.stripTrackingParams) {
+      const tracking = Array.from(new Set(parsed.searchParams.keys())).filter(isTrackingParam);
+      tracking.forEach(name => parsed.searchParams.delete(name));
+    }
+    if (options.sortQueryParams && parsed.searchParams.size > 1) {
+      parsed.searchParams.sort();
+    }
+    if (parsed.search === '?') {
+      parsed.search = '';
+    }
+
+    let pathname = options.lowercasePath ? parsed.pathname.toLowerCase() : parsed.pathname;
+    if (options.trailingSlash === 'strip' && pathname.length > 1 && pathname.endsWith('/')) {
+      pathname = pathname.replace(/\/+$/, '') || '/';
+    } else if (options.trailingSlash === 'add' && !pathname.endsWith('/') && !pathname.split('/').pop()!.includes('.')) {
+      // Paths ending in a file name ("/feed.xml") keep their form
+      pathname += '/';
+    }
+    parsed.pathname = pathname;
+
+    return parsed.toString();
+  };
+}
@@ -1,5 +1,7 @@
-import { type User, type InsertUser, type CrawlJob, type InsertCrawlJob, type CrawledImage, type InsertCrawledImage } from "@shared/schema";
+import { type User, type InsertUser, type CrawlJob, type InsertCrawlJob, type CrawledImage, type InsertCrawledImage, type ImagePayload, type InsertImagePayload, type FrontierUrl, type FrontierState, type SitemapImage, type InsertSitemapImage, type CrawledPage, type InsertCrawledPage, DEFAULT_LAZY_LOAD_ATTRIBUTES, DEFAULT_URL_NORMALIZATION, users, crawlJobs, crawledImages, imagePayloads, crawlFrontier, sitemapImages, crawledPages } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq } from "drizzle-orm";
+import { createDatabase, migrateDatabase, type Database } from "./db";
 
 export interface IStorage {
   // User methods (existing)
@@ -18,18 +20,49 @@ export interface IStorage {
   getCrawledImagesByJobId(jobId: string): Promise<CrawledImage[]>;
   getAllCrawledImages(): Promise<CrawledImage[]>;
   deleteCrawledImagesByJobId(jobId: string): Promise<void>;
+  deleteCrawledImagesByPage(jobId: string, pageUrl: string): Promise<void>;
   updateCrawledImage(id: string, updates: Partial<CrawledImage>): Promise<CrawledImage | undefined>;
+  
+  // Inline image payload methods
+  saveImagePayload(payload: InsertImagePayload): Promise<ImagePayload>;
+  getImagePayload(hash: string): Promise<ImagePayload | undefined>;
+
+  // Crawled page methods
+  createCrawledPage(page: InsertCrawledPage): Promise<CrawledPage>;
+  getCrawledPagesByJobId(jobId: string): Promise<CrawledPage[]>;
+  deleteCrawledPagesByJobId(jobId: string): Promise<void>;
+
+  // Crawl frontier methods; URLs already in a job's frontier are ignored
+  addFrontierUrls(jobId: string, urls: string[], depth: number, state?: FrontierState, referrer?: string | null): Promise<void>;
+  updateFrontierUrl(jobId: string, url: string, state: FrontierState): Promise<void>;
+  getFrontierUrls(jobId: string): Promise<FrontierUrl[]>;
+  deleteFrontierUrls(jobId: string): Promise<void>;
+
+  // Image sitemap methods
+  createSitemapImages(images: InsertSitemapImage[]): Promise<void>;
+  getSitemapImagesByJobId(jobId: string): Promise<SitemapImage[]>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private crawlJobs: Map<string, CrawlJob>;
   private crawledImages: Map<string, CrawledImage>;
+  private imagePayloads: Map<string, ImagePayload>;
+  private crawledPages: Map<string, CrawledPage>;
+  // Per job, keyed by URL; Map keeps insertion order, which is crawl order
+  private frontiers: Map<string, Map<string, FrontierUrl>>;
+  private nextFrontierId: number;
+  private sitemapImages: Map<string, SitemapImage>;
 
   constructor() {
     this.users = new Map();
     this.crawlJobs = new Map();
     this.crawledImages = new Map();
+    this.imagePayloads = new Map();
+    this.crawledPages = new Map();
+    this.frontiers = new Map();
+    this.nextFrontierId = 1;
+    this.sitemapImages = new Map();
   }
 
   // User methods (existing)
@@ -59,11 +92,38 @@ export class MemStorage implements IStorage {
       maxPages: insertJob.maxPages || 100,
       timeout: insertJob.timeout || 60000,
       includeCssBackgrounds: insertJob.includeCssBackgrounds || true,
+      lazyLoadAttributes: insertJob.lazyLoadAttributes || DEFAULT_LAZY_LOAD_ATTRIBUTES,
+      probeImages: insertJob.probeImages ?? false,
+      concurrency: insertJob.concurrency ?? 4,
+      respectRobotsTxt: insertJob.respectRobotsTxt ?? true,
+      requestsPerSecond: insertJob.requestsPerSecond ?? 5,
+      honorRetryAfter: insertJob.honorRetryAfter ?? true,
+      maxAttempts: insertJob.maxAttempts ?? 3,
+      maxRedirectHops: insertJob.maxRedirectHops ?? 2,
+      sitemapMode: insertJob.sitemapMode ?? "seed",
+      renderJavaScript: insertJob.renderJavaScript ?? false,
+      autoScroll: insertJob.autoScroll ?? true,
+      fetchMode: null,
+      deviceProfile: insertJob.deviceProfile ?? "desktop",
+      compareProfile: insertJob.compareProfile ?? null,
+      includePatterns: insertJob.includePatterns || [],
+      excludePatterns: insertJob.excludePatterns || [],
+      maxDepth: insertJob.maxDepth ?? null,
+      maxQueryParams: insertJob.maxQueryParams ?? null,
+      customHeaders: insertJob.customHeaders || {},
+      cookies: insertJob.cookies || [],
+      basicAuth: insertJob.basicAuth ?? null,
+      loginFlow: insertJob.loginFlow ?? null,
+      urlNormalization: insertJob.urlNormalization || DEFAULT_URL_NORMALIZATION,
+      scope: insertJob.scope ?? "origin",
+      allowedHosts: insertJob.allowedHosts || [],
       status: "pending",
       progress: 0,
       pagesProcessed: 0,
+      failedPages: 0,
       totalPagesFound: 0,
       imagesFound: 0,
+      duplicatesCollapsed: 0,
       currentPage: null,
       error: null,
       createdAt: new Date(),
@@ -99,12 +159,36 @@ export class MemStorage implements IStorage {
       id,
       jobId: insertImage.jobId,
       pageUrl: insertImage.pageUrl,
+      pageDepth: insertImage.pageDepth ?? null,
+      imageHost: insertImage.imageHost ?? null,
+      thirdParty: insertImage.thirdParty ?? null,
       imageUrl: insertImage.imageUrl,
+      source: insertImage.source || "img",
+      discovery: insertImage.discovery || "html",
+      deviceProfile: insertImage.deviceProfile || "desktop",
       altText: insertImage.altText || null,
       imgTagHtml: insertImage.imgTagHtml || null,
       imageType: insertImage.imageType || null,
       filename: insertImage.filename || null,
       dimensions: insertImage.dimensions || null,
+      sources: insertImage.sources || null,
+      lazyLoadSource: insertImage.lazyLoadSource || null,
+      placeholderUrl: insertImage.placeholderUrl || null,
+      cssSelector: insertImage.cssSelector || null,
+      stylesheetUrl: insertImage.stylesheetUrl || null,
+      contentHash: insertImage.contentHash || null,
+      byteSize: insertImage.byteSize ?? null,
+      mimeType: insertImage.mimeType || null,
+      httpStatus: insertImage.httpStatus ?? null,
+      finalUrl: insertImage.finalUrl || null,
+      redirectChain: insertImage.redirectChain || null,
+      probeError: insertImage.probeError || null,
+      naturalWidth: insertImage.naturalWidth ?? null,
+      naturalHeight: insertImage.naturalHeight ?? null,
+      renderedWidth: insertImage.renderedWidth ?? null,
+      renderedHeight: insertImage.renderedHeight ?? null,
+      devicePixelRatio: insertImage.devicePixelRatio ?? null,
+      wastedBytes: insertImage.wastedBytes ?? null,
       createdAt: new Date(),
     };
     this.crawledImages.set(id, image);
@@ -131,6 +215,14 @@ export class MemStorage implements IStorage {
     entriesToDelete.forEach(id => this.crawledImages.delete(id));
   }
 
+  async deleteCrawledImagesByPage(jobId: string, pageUrl: string): Promise<void> {
+    this.crawledImages.forEach((image, id) => {
+      if (image.jobId === jobId && image.pageUrl === pageUrl) {
+        this.crawledImages.delete(id);
+      }
+    });
+  }
+
   async updateCrawledImage(id: string, updates: Partial<CrawledImage>): Promise<CrawledImage | undefined> {
     const image = this.crawledImages.get(id);
     if (!image) return undefined;
@@ -139,6 +231,254 @@ export class MemStorage implements IStorage {
     this.crawledImages.set(id, updatedImage);
     return updatedImage;
   }
+
+  // Inline image payload methods
+  async saveImagePayload(insertPayload: InsertImagePayload): Promise<ImagePayload> {
+    // Payloads are content-addressed, so an existing entry is already identical
+    const existing = this.imagePayloads.get(insertPayload.hash);
+    if (existing) return existing;
+
+    const payload: ImagePayload = { ...insertPayload, createdAt: new Date() };
+    this.imagePayloads.set(payload.hash, payload);
+    return payload;
+  }
+
+  async getImagePayload(hash: string): Promise<ImagePayload | undefined> {
+    return this.imagePayloads.get(hash);
+  }
+
+  // Crawled page methods
+  async createCrawledPage(insertPage: InsertCrawledPage): Promise<CrawledPage> {
+    const id = randomUUID();
+    const page: CrawledPage = {
+      id,
+      jobId: insertPage.jobId,
+      url: insertPage.url,
+      outcome: insertPage.outcome,
+      httpStatus: insertPage.httpStatus ?? null,
+      redirectChain: insertPage.redirectChain || [],
+      finalUrl: insertPage.finalUrl ?? null,
+      contentType: insertPage.contentType ?? null,
+      ttfb: insertPage.ttfb ?? null,
+      totalTime: insertPage.totalTime ?? null,
+      byteSize: insertPage.byteSize ?? null,
+      retryCount: insertPage.retryCount ?? 0,
+      attempts: insertPage.attempts || [],
+      error: insertPage.error ?? null,
+      comparisonError: insertPage.comparisonError ?? null,
+      depth: insertPage.depth ?? 0,
+      referrer: insertPage.referrer ?? null,
+      fetchedAt: new Date()
+    };
+    this.crawledPages.set(id, page);
+    return page;
+  }
+
+  async getCrawledPagesByJobId(jobId: string): Promise<CrawledPage[]> {
+    return Array.from(this.crawledPages.values()).filter(
+      (page) => page.jobId === jobId
+    );
+  }
+
+  async deleteCrawledPagesByJobId(jobId: string): Promise<void> {
+    this.crawledPages.forEach((page, id) => {
+      if (page.jobId === jobId) {
+        this.crawledPages.delete(id);
+      }
+    });
+  }
+
+  // Crawl frontier methods
+  async addFrontierUrls(jobId: string, urls: string[], depth: number, state: FrontierState = "queued", referrer: string | null = null): Promise<void> {
+    const frontier = this.frontiers.get(jobId) || new Map<string, FrontierUrl>();
+    for (const url of urls) {
+      if (!frontier.has(url)) {
+        frontier.set(url, { id: this.nextFrontierId++, jobId, url, state, depth, referrer, updatedAt: new Date() });
+      }
+    }
+    this.frontiers.set(jobId, frontier);
+  }
+
+  async updateFrontierUrl(jobId: string, url: string, state: FrontierState): Promise<void> {
+    const entry = this.frontiers.get(jobId)?.get(url);
+    if (entry) {
+      entry.state = state;
+      entry.updatedAt = new Date();
+    }
+  }
+
+  async getFrontierUrls(jobId: string): Promise<FrontierUrl[]> {
+    return Array.from(this.frontiers.get(jobId)?.values() || []);
+  }
+
+  async deleteFrontierUrls(jobId: string): Promise<void> {
+    this.frontiers.delete(jobId);
+  }
+
+  // Image sitemap methods
+  async createSitemapImages(images: InsertSitemapImage[]): Promise<void> {
+    for (const image of images) {
+      const id = randomUUID();
+      this.sitemapImages.set(id, { ...image, id });
+    }
+  }
+
+  async getSitemapImagesByJobId(jobId: string): Promise<SitemapImage[]> {
+    return Array.from(this.sitemapImages.values()).filter(
+      (image) => image.jobId === jobId
+    );
+  }
+}
+
+// Keeps multi-row inserts well under Postgres' 65535 bind parameter limit
+const INSERT_BATCH_SIZE = 1000;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async migrate(): Promise<void> {
+    await migrateDatabase(this.db);
+  }
+
+  // User methods (existing)
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Crawl job methods
+  async createCrawlJob(insertJob: InsertCrawlJob): Promise<CrawlJob> {
+    const [job] = await this.db.insert(crawlJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getCrawlJob(id: string): Promise<CrawlJob | undefined> {
+    const [job] = await this.db.select().from(crawlJobs).where(eq(crawlJobs.id, id));
+    return job;
+  }
+
+  async updateCrawlJob(id: string, updates: Partial<CrawlJob>): Promise<CrawlJob | undefined> {
+    const [job] = await this.db.update(crawlJobs).set(updates).where(eq(crawlJobs.id, id)).returning();
+    return job;
+  }
+
+  async getCrawlJobs(): Promise<CrawlJob[]> {
+    return this.db.select().from(crawlJobs).orderBy(desc(crawlJobs.createdAt));
+  }
+
+  // Crawled image methods
+  async createCrawledImage(insertImage: InsertCrawledImage): Promise<CrawledImage> {
+    const [image] = await this.db.insert(crawledImages).values(insertImage).returning();
+    return image;
+  }
+
+  async getCrawledImagesByJobId(jobId: string): Promise<CrawledImage[]> {
+    return this.db.select().from(crawledImages)
+      .where(eq(crawledImages.jobId, jobId))
+      .orderBy(asc(crawledImages.createdAt));
+  }
+
+  async getAllCrawledImages(): Promise<CrawledImage[]> {
+    return this.db.select().from(crawledImages).orderBy(asc(crawledImages.createdAt));
+  }
+
+  async deleteCrawledImagesByJobId(jobId: string): Promise<void> {
+    await this.db.delete(crawledImages).where(eq(crawledImages.jobId, jobId));
+  }
+
+  async deleteCrawledImagesByPage(jobId: string, pageUrl: string): Promise<void> {
+    await this.db.delete(crawledImages)
+      .where(and(eq(crawledImages.jobId, jobId), eq(crawledImages.pageUrl, pageUrl)));
+  }
+
+  async updateCrawledImage(id: string, updates: Partial<CrawledImage>): Promise<CrawledImage | undefined> {
+    const [image] = await this.db.update(crawledImages).set(updates).where(eq(crawledImages.id, id)).returning();
+    return image;
+  }
+
+  // Inline image payload methods
+  async saveImagePayload(insertPayload: InsertImagePayload): Promise<ImagePayload> {
+    await this.db.insert(imagePayloads).values(insertPayload).onConflictDoNothing();
+    return (await this.getImagePayload(insertPayload.hash))!;
+  }
+
+  async getImagePayload(hash: string): Promise<ImagePayload | undefined> {
+    const [payload] = await this.db.select().from(imagePayloads).where(eq(imagePayloads.hash, hash));
+    return payload;
+  }
+
+  // Crawled page methods
+  async createCrawledPage(insertPage: InsertCrawledPage): Promise<CrawledPage> {
+    const [page] = await this.db.insert(crawledPages).values(insertPage).returning();
+    return page;
+  }
+
+  async getCrawledPagesByJobId(jobId: string): Promise<CrawledPage[]> {
+    return this.db.select().from(crawledPages)
+      .where(eq(crawledPages.jobId, jobId))
+      .orderBy(asc(crawledPages.fetchedAt));
+  }
+
+  async deleteCrawledPagesByJobId(jobId: string): Promise<void> {
+    await this.db.delete(crawledPages).where(eq(crawledPages.jobId, jobId));
+  }
+
+  // Crawl frontier methods
+  async addFrontierUrls(jobId: string, urls: string[], depth: number, state: FrontierState = "queued", referrer: string | null = null): Promise<void> {
+    for (const batch of chunk(urls, INSERT_BATCH_SIZE)) {
+      await this.db.insert(crawlFrontier)
+        .values(batch.map(url => ({ jobId, url, depth, state, referrer })))
+        .onConflictDoNothing();
+    }
+  }
+
+  async updateFrontierUrl(jobId: string, url: string, state: FrontierState): Promise<void> {
+    await this.db.update(crawlFrontier)
+      .set({ state, updatedAt: new Date() })
+      .where(and(eq(crawlFrontier.jobId, jobId), eq(crawlFrontier.url, url)));
+  }
+
+  async getFrontierUrls(jobId: string): Promise<FrontierUrl[]> {
+    return this.db.select().from(crawlFrontier)
+      .where(eq(crawlFrontier.jobId, jobId))
+      .orderBy(asc(crawlFrontier.id));
+  }
+
+  async deleteFrontierUrls(jobId: string): Promise<void> {
+    await this.db.delete(crawlFrontier).where(eq(crawlFrontier.jobId, jobId));
+  }
+
+  // Image sitemap methods
+  async createSitemapImages(images: InsertSitemapImage[]): Promise<void> {
+    for (const batch of chunk(images, INSERT_BATCH_SIZE)) {
+      await this.db.insert(sitemapImages).values(batch);
+    }
+  }
+
+  async getSitemapImagesByJobId(jobId: string): Promise<SitemapImage[]> {
+    return this.db.select().from(sitemapImages).where(eq(sitemapImages.jobId, jobId));
+  }
 }
 
-export const storage = new MemStorage();
+// Crawls are kept in memory unless DATABASE_URL points at a Postgres database
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDatabase(process.env.DATABASE_URL))
+  : new MemStorage();
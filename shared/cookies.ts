@@ -0,0 +1,76 @@
+import type { CrawlCookie } from "./schema";
+
+// Netscape cookies.txt marks HttpOnly cookies by prefixing the domain, which otherwise looks like a comment
+const HTTP_ONLY_PREFIX = "#HttpOnly_";
+
+/**
+ * Reads a cookie export: a Netscape cookies.txt (curl, wget, browser
+ * extensions), a JSON array of cookies (EditThisCookie, Cookie-Editor) or a
+ * storage state object with a "cookies" array (Playwright, Puppeteer).
+ * Throws with the offending line or entry when the text can't be read.
+ */
+export function parseCookieFile(text: string): CrawlCookie[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  return trimmed.startsWith("[") || trimmed.startsWith("{") ? parseJsonCookies(trimmed) : parseNetscapeCookies(trimmed);
+}
+
+function parseNetscapeCookies(text: string): CrawlCookie[] {
+  const cookies: CrawlCookie[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.startsWith(HTTP_ONLY_PREFIX) ? rawLine.slice(HTTP_ONLY_PREFIX.length) : rawLine;
+    if (!line.trim() || line.startsWith("#")) return;
+
+    const fields = line.split("\t");
+    if (fields.length < 7) {
+      throw new Error(`Line ${index + 1} is not a cookies.txt entry`);
+    }
+
+    const [domain, includeSubdomains, path, secure, expires, name, ...value] = fields;
+    const expiresAt = parseInt(expires, 10);
+    cookies.push({
+      name,
+      value: value.join("\t"),
+      domain: domain.replace(/^\./, "").toLowerCase(),
+      hostOnly: includeSubdomains.toUpperCase() !== "TRUE",
+      path: path || "/",
+      secure: secure.toUpperCase() === "TRUE",
+      expires: expiresAt > 0 ? expiresAt : null,
+    });
+  });
+
+  return cookies;
+}
+
+function parseJsonCookies(text: string): CrawlCookie[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Cookie JSON could not be parsed");
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { cookies?: unknown })?.cookies;
+  if (!Array.isArray(entries)) {
+    throw new Error('Cookie JSON must be an array or have a "cookies" array');
+  }
+
+  return entries.map((entry, index) => {
+    if (!entry || typeof entry.name !== "string" || typeof entry.domain !== "string") {
+      throw new Error(`Cookie ${index + 1} needs a name and a domain`);
+    }
+
+    // Extensions use expirationDate, Playwright and Puppeteer use expires (-1 for session cookies)
+    const expires = Number(entry.expirationDate ?? entry.expires);
+    return {
+      name: entry.name,
+      value: String(entry.value ?? ""),
+      domain: entry.domain.replace(/^\./, "").toLowerCase(),
+      hostOnly: typeof entry.hostOnly === "boolean" ? entry.hostOnly : !entry.domain.startsWith("."),
+      path: typeof entry.path === "string" && entry.path.startsWith("/") ? entry.path : "/",
+      secure: !!entry.secure,
+      expires: expires > 0 ? Math.floor(expires) : null,
+    };
+  });
+}
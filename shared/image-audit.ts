@@ -0,0 +1,37 @@
+import { type ImageSource } from "./schema";
+
+export interface ResponsiveImageAudit {
+  candidateCount: number;
+  hasHighDensityVariant: boolean;
+  hasModernFormat: boolean;
+}
+
+const MODERN_FORMATS = ["webp", "avif"];
+
+export function auditResponsiveImage(sources: ImageSource[] | null): ResponsiveImageAudit {
+  const candidates = (sources || []).flatMap((source) => source.candidates);
+  const widths = candidates
+    .map((candidate) => candidate.width)
+    .filter((width): width is number => width !== null);
+
+  // With width descriptors the browser picks by DPR, so a 2x variant exists
+  // when the widest candidate is at least double the narrowest
+  const hasHighDensityVariant =
+    candidates.some((candidate) => (candidate.density ?? 0) >= 2) ||
+    (widths.length > 1 && Math.max(...widths) >= 2 * Math.min(...widths));
+
+  const hasModernFormat =
+    (sources || []).some((source) =>
+      MODERN_FORMATS.some((format) => source.type === `image/${format}`),
+    ) ||
+    candidates.some((candidate) => {
+      const extension = candidate.url.split("?")[0].split(".").pop()?.toLowerCase();
+      return !!extension && MODERN_FORMATS.includes(extension);
+    });
+
+  return {
+    candidateCount: candidates.length,
+    hasHighDensityVariant,
+    hasModernFormat,
+  };
+}
@@ -0,0 +1,564 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, real, serial, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { isValidUrlPattern } from "./url-patterns";
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+});
+
+// Attributes lazy-loading libraries use to hold the real image URL; names
+// ending in "srcset" are parsed as srcsets
+export const DEFAULT_LAZY_LOAD_ATTRIBUTES = [
+  "data-src",
+  "data-srcset",
+  "data-original",
+  "data-lazy-src",
+  "data-lazy-srcset",
+  "data-lazy",
+  "data-url",
+];
+
+// How sitemaps feed the frontier: ignored, added to the start page, or the only pages crawled
+export const SITEMAP_MODES = ["off", "seed", "only"] as const;
+export type SitemapMode = (typeof SITEMAP_MODES)[number];
+
+// Hosts a crawl may follow links to: the start page's origin, every
+// subdomain of its registrable domain, or an explicit list of hosts
+export const CRAWL_SCOPES = ["origin", "domain", "hosts"] as const;
+export type CrawlScopeMode = (typeof CRAWL_SCOPES)[number];
+
+// Bare hostnames, without scheme or port
+export const HOSTNAME_REGEX = /^[a-z0-9-]+(\.[a-z0-9-]+)*$/i;
+
+// RFC 9110 token characters
+export const HEADER_NAME_REGEX = /^[!#$%&'*+.^_`|~0-9a-z-]+$/i;
+
+// How page URLs are rewritten before they're deduplicated in the frontier
+export const TRAILING_SLASH_MODES = ["keep", "strip", "add"] as const;
+export type TrailingSlashMode = (typeof TRAILING_SLASH_MODES)[number];
+
+export const urlNormalizationSchema = z.object({
+  // Drop utm_*, gclid, fbclid and similar attribution parameters
+  stripTrackingParams: z.boolean(),
+  sortQueryParams: z.boolean(),
+  trailingSlash: z.enum(TRAILING_SLASH_MODES),
+  // Only safe on case-insensitive servers, so off by default
+  lowercasePath: z.boolean(),
+  // Treat a page whose <link rel="canonical"> was already crawled as a duplicate
+  honorCanonical: z.boolean(),
+});
+
+export type UrlNormalization = z.infer<typeof urlNormalizationSchema>;
+
+export const DEFAULT_URL_NORMALIZATION: UrlNormalization = {
+  stripTrackingParams: true,
+  sortQueryParams: true,
+  trailingSlash: "strip",
+  lowercasePath: false,
+  honorCanonical: true,
+};
+
+// Credentials a crawl sends to its in-scope hosts (cookies go wherever their domain matches)
+export const crawlCookieSchema = z.object({
+  name: z.string().min(1),
+  value: z.string(),
+  // Without a leading dot; hostOnly cookies don't apply to subdomains
+  domain: z.string().min(1),
+  hostOnly: z.boolean(),
+  path: z.string().startsWith("/"),
+  secure: z.boolean(),
+  // Unix seconds; null for session cookies
+  expires: z.number().nullable(),
+});
+
+export const basicAuthSchema = z.object({
+  username: z.string().min(1),
+  password: z.string(),
+});
+
+// A form filled in and submitted once in the headless browser before crawling
+export const loginFlowSchema = z.object({
+  url: z.string().url(),
+  usernameSelector: z.string().min(1),
+  passwordSelector: z.string().min(1),
+  submitSelector: z.string().min(1),
+  username: z.string(),
+  password: z.string(),
+  // Waited for after submitting, to confirm the login worked
+  successSelector: z.string().min(1).nullable(),
+});
+
+export type CrawlCookie = z.infer<typeof crawlCookieSchema>;
+export type BasicAuth = z.infer<typeof basicAuthSchema>;
+export type LoginFlow = z.infer<typeof loginFlowSchema>;
+
+// Devices a crawl can present itself as; sites that sniff the user agent or
+// the viewport may serve each a different set of images
+export const DEVICE_PROFILE_NAMES = ["desktop", "mobile", "tablet"] as const;
+export type DeviceProfileName = (typeof DEVICE_PROFILE_NAMES)[number];
+
+export interface DeviceProfile {
+  label: string;
+  userAgent: string;
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  isMobile: boolean;
+}
+
+// Every user agent keeps the crawler's product token so sites can still tell it's a bot
+export const DEVICE_PROFILES: Record<DeviceProfileName, DeviceProfile> = {
+  desktop: {
+    label: "Desktop",
+    userAgent: "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 SiteImageCrawler/1.0",
+    viewport: { width: 1366, height: 768 },
+    deviceScaleFactor: 1,
+    isMobile: false,
+  },
+  mobile: {
+    label: "Mobile",
+    userAgent: "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36 SiteImageCrawler/1.0",
+    viewport: { width: 412, height: 915 },
+    deviceScaleFactor: 2.625,
+    isMobile: true,
+  },
+  tablet: {
+    label: "Tablet",
+    userAgent: "Mozilla/5.0 (iPad; CPU OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1 SiteImageCrawler/1.0",
+    viewport: { width: 820, height: 1180 },
+    deviceScaleFactor: 2,
+    isMobile: true,
+  },
+};
+
+// Upper bound on per-crawl parallelism, to stay polite to the crawled site
+export const MAX_PAGE_CONCURRENCY = 16;
+
+// Upper bound on fetches per page, so a flaky site can't stall a crawl
+export const MAX_FETCH_ATTEMPTS = 10;
+
+// Redirects followed per page before it counts as unreachable, as in browsers
+export const MAX_REDIRECTS = 20;
+
+// Where in the page an image reference was found; "network" images were
+// requested while rendering but are referenced nowhere in the DOM
+export const IMAGE_SOURCES = ["img", "picture", "svg", "css", "og", "twitter", "icon", "manifest", "json-ld", "network"] as const;
+export type ImageSourceKind = (typeof IMAGE_SOURCES)[number];
+
+// How an image was found: in the HTML as served, in the DOM once scripts
+// ran, or only in the browser's network log
+export const IMAGE_DISCOVERY_METHODS = ["html", "dom", "network"] as const;
+export type ImageDiscoveryMethod = (typeof IMAGE_DISCOVERY_METHODS)[number];
+
+export const crawlJobs = pgTable("crawl_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  targetUrl: text("target_url").notNull(),
+  maxPages: integer("max_pages").notNull().default(100),
+  timeout: integer("timeout").notNull().default(60000),
+  includeCssBackgrounds: boolean("include_css_backgrounds").notNull().default(true),
+  lazyLoadAttributes: jsonb("lazy_load_attributes").$type<string[]>().notNull().default(DEFAULT_LAZY_LOAD_ATTRIBUTES),
+  probeImages: boolean("probe_images").notNull().default(false),
+  // Pages fetched in parallel within this crawl
+  concurrency: integer("concurrency").notNull().default(4),
+  // Politeness: robots.txt rules, per-host request rate (0 = unlimited) and Retry-After on 429/503
+  respectRobotsTxt: boolean("respect_robots_txt").notNull().default(true),
+  requestsPerSecond: real("requests_per_second").notNull().default(5),
+  honorRetryAfter: boolean("honor_retry_after").notNull().default(true),
+  // Fetches per page, the first included; only timeouts, dropped connections, 429 and 5xx are retried
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  // Pages reached through more redirects than this are listed in the redirect report; 0 lists every redirect
+  maxRedirectHops: integer("max_redirect_hops").notNull().default(2),
+  // Load pages in headless Chromium so script-inserted images are found
+  renderJavaScript: boolean("render_javascript").notNull().default(false),
+  // Rendered pages are scrolled to the bottom in steps to trigger lazy loading
+  autoScroll: boolean("auto_scroll").notNull().default(true),
+  // Fetcher the crawl ran with: "browser", or "static" (also when no Chromium was available)
+  fetchMode: text("fetch_mode"),
+  // Device pages are fetched as; with a compare profile every page is fetched
+  // as that device too, and the two image sets are diffed per page
+  deviceProfile: text("device_profile").$type<DeviceProfileName>().notNull().default("desktop"),
+  compareProfile: text("compare_profile").$type<DeviceProfileName>(),
+  sitemapMode: text("sitemap_mode").$type<SitemapMode>().notNull().default("seed"),
+  scope: text("scope").$type<CrawlScopeMode>().notNull().default("origin"),
+  // Hosts crawled besides the start page's own in the "hosts" scope
+  allowedHosts: jsonb("allowed_hosts").$type<string[]>().notNull().default([]),
+  // Scope rules (see shared/url-patterns.ts); null limits mean unlimited
+  includePatterns: jsonb("include_patterns").$type<string[]>().notNull().default([]),
+  excludePatterns: jsonb("exclude_patterns").$type<string[]>().notNull().default([]),
+  maxDepth: integer("max_depth"),
+  maxQueryParams: integer("max_query_params"),
+  // Authentication; secrets are redacted whenever a job is sent to the client
+  customHeaders: jsonb("custom_headers").$type<Record<string, string>>().notNull().default({}),
+  cookies: jsonb("cookies").$type<CrawlCookie[]>().notNull().default([]),
+  basicAuth: jsonb("basic_auth").$type<BasicAuth>(),
+  loginFlow: jsonb("login_flow").$type<LoginFlow>(),
+  urlNormalization: jsonb("url_normalization").$type<UrlNormalization>().notNull().default(DEFAULT_URL_NORMALIZATION),
+  status: text("status").notNull().default("pending"),
+  progress: integer("progress").notNull().default(0),
+  pagesProcessed: integer("pages_processed").notNull().default(0),
+  // Pages given up on after every retry
+  failedPages: integer("failed_pages").notNull().default(0),
+  totalPagesFound: integer("total_pages_found").notNull().default(0),
+  imagesFound: integer("images_found").notNull().default(0),
+  // URL variants and canonical duplicates folded into a page already in the frontier
+  duplicatesCollapsed: integer("duplicates_collapsed").notNull().default(0),
+  currentPage: text("current_page"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Lifecycle of a URL in a crawl's frontier; "fetching" marks the page in
+// flight, so a crash mid-page can be detected and the page retried,
+// "blocked" pages were disallowed by robots.txt and "duplicate" URLs
+// normalize to, or are canonicalized as, another page in the frontier
+export const FRONTIER_STATES = ["queued", "fetching", "visited", "failed", "blocked", "duplicate"] as const;
+export type FrontierState = (typeof FRONTIER_STATES)[number];
+
+export const crawlFrontier = pgTable("crawl_frontier", {
+  id: serial("id").primaryKey(),
+  jobId: varchar("job_id").notNull().references(() => crawlJobs.id),
+  url: text("url").notNull(),
+  state: text("state").$type<FrontierState>().notNull().default("queued"),
+  // Links followed from a seed URL (the start page or a sitemap entry)
+  depth: integer("depth").notNull().default(0),
+  // Page the URL was first linked from; null for seeds
+  referrer: text("referrer"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("crawl_frontier_job_id_url_idx").on(table.jobId, table.url),
+]);
+
+// How a page's fetch ended: crawled, given up on after every retry,
+// disallowed by robots.txt, or found to be a duplicate of another page
+// through its rel=canonical
+export const PAGE_OUTCOMES = ["crawled", "failed", "blocked", "duplicate"] as const;
+export type PageOutcome = (typeof PAGE_OUTCOMES)[number];
+
+// One fetch of a page. Failed attempts say whether they were worth retrying
+// and how long the crawl backed off; retryDelay is null when a Retry-After
+// header set the wait instead, or nothing was retried
+export interface PageAttempt {
+  attempt: number;
+  startedAt: string;
+  // Milliseconds the fetch took
+  duration: number;
+  httpStatus: number | null;
+  error: string | null;
+  retryable: boolean | null;
+  retryDelay: number | null;
+}
+
+// One row per page URL a crawl attempted, describing its last fetch
+export const crawledPages = pgTable("crawled_pages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => crawlJobs.id),
+  url: text("url").notNull(),
+  outcome: text("outcome").$type<PageOutcome>().notNull(),
+  httpStatus: integer("http_status"),
+  // URLs redirected from, in order, on the way to finalUrl; for a redirect loop, finalUrl is
+  // the URL the chain looped back to
+  redirectChain: jsonb("redirect_chain").$type<string[]>().notNull().default([]),
+  finalUrl: text("final_url"),
+  contentType: text("content_type"),
+  // Milliseconds to the response headers and to the whole page (rendered, for browser fetches)
+  ttfb: integer("ttfb"),
+  totalTime: integer("total_time"),
+  byteSize: integer("byte_size"),
+  // Attempts after the first, and every attempt in order
+  retryCount: integer("retry_count").notNull().default(0),
+  attempts: jsonb("attempts").$type<PageAttempt[]>().notNull().default([]),
+  error: text("error"),
+  // Why a compare crawl's second fetch of the page failed; its images are left out of the device diff
+  comparisonError: text("comparison_error"),
+  depth: integer("depth").notNull().default(0),
+  referrer: text("referrer"),
+  fetchedAt: timestamp("fetched_at").notNull().defaultNow(),
+}, (table) => [
+  index("crawled_pages_job_id_idx").on(table.jobId),
+]);
+
+// One URL from a srcset, with its width ("640w") or density ("2x") descriptor
+export const imageCandidateSchema = z.object({
+  url: z.string(),
+  width: z.number().nullable(),
+  density: z.number().nullable(),
+});
+
+// A <source> or <img> element contributing candidates to a logical image
+export const imageSourceSchema = z.object({
+  element: z.enum(["img", "source"]),
+  media: z.string().nullable(),
+  type: z.string().nullable(),
+  sizes: z.string().nullable(),
+  candidates: z.array(imageCandidateSchema),
+});
+
+export type ImageCandidate = z.infer<typeof imageCandidateSchema>;
+export type ImageSource = z.infer<typeof imageSourceSchema>;
+
+export const crawledImages = pgTable("crawled_images", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => crawlJobs.id),
+  pageUrl: text("page_url").notNull(),
+  pageDepth: integer("page_depth"),
+  imageUrl: text("image_url").notNull(),
+  // Host serving the image, and whether it lies outside the crawl's first-party hosts (null for inline images)
+  imageHost: text("image_host"),
+  thirdParty: boolean("third_party"),
+  source: text("source").$type<ImageSourceKind>().notNull().default("img"),
+  discovery: text("discovery").$type<ImageDiscoveryMethod>().notNull().default("html"),
+  // Profile the page was fetched as when the image was found
+  deviceProfile: text("device_profile").$type<DeviceProfileName>().notNull().default("desktop"),
+  altText: text("alt_text"),
+  imgTagHtml: text("img_tag_html"),
+  imageType: text("image_type"),
+  filename: text("filename"),
+  dimensions: text("dimensions"),
+  sources: jsonb("sources").$type<ImageSource[]>(),
+  // Lazy-load convention the real URL came from ("data-src", "noscript", ...)
+  lazyLoadSource: text("lazy_load_source"),
+  // Placeholder found in src; equals imageUrl when no real URL was found
+  placeholderUrl: text("placeholder_url"),
+  // CSS images: the rule selector and, for external stylesheets, the sheet URL
+  cssSelector: text("css_selector"),
+  stylesheetUrl: text("stylesheet_url"),
+  // Inline SVGs and data: URIs: the payload lives in image_payloads under this hash
+  contentHash: varchar("content_hash"),
+  // Decoded payload size and type for inline images, Content-Length and
+  // Content-Type for probed ones
+  byteSize: integer("byte_size"),
+  mimeType: text("mime_type"),
+  // Filled in by the image probe phase
+  httpStatus: integer("http_status"),
+  finalUrl: text("final_url"),
+  redirectChain: jsonb("redirect_chain").$type<string[]>(),
+  probeError: text("probe_error"),
+  // Intrinsic vs on-screen size, recorded when the page is rendered in a browser
+  naturalWidth: integer("natural_width"),
+  naturalHeight: integer("natural_height"),
+  renderedWidth: integer("rendered_width"),
+  renderedHeight: integer("rendered_height"),
+  devicePixelRatio: real("device_pixel_ratio"),
+  // Estimated bytes saved by serving the image at its rendered size
+  wastedBytes: integer("wasted_bytes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("crawled_images_job_id_idx").on(table.jobId),
+  index("crawled_images_page_url_idx").on(table.pageUrl),
+  index("crawled_images_image_url_idx").on(table.imageUrl),
+]);
+
+// Images a page declares through <image:image> in the site's image sitemap
+export const sitemapImages = pgTable("sitemap_images", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => crawlJobs.id),
+  pageUrl: text("page_url").notNull(),
+  imageUrl: text("image_url").notNull(),
+}, (table) => [
+  index("sitemap_images_job_id_idx").on(table.jobId),
+]);
+
+// Decoded bodies of inline images, deduplicated by SHA-256
+export const imagePayloads = pgTable("image_payloads", {
+  hash: varchar("hash").primaryKey(),
+  mimeType: text("mime_type").notNull(),
+  byteSize: integer("byte_size").notNull(),
+  data: text("data").notNull(), // base64
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+  password: true,
+});
+
+const urlPatternsSchema = z
+  .array(z.string().trim().min(1).refine(isValidUrlPattern, { message: "Invalid URL pattern" }))
+  .optional();
+
+export const insertCrawlJobSchema = createInsertSchema(crawlJobs, {
+  lazyLoadAttributes: z.array(z.string().trim().min(1)).optional(),
+  concurrency: z.number().int().min(1).max(MAX_PAGE_CONCURRENCY).optional(),
+  requestsPerSecond: z.number().min(0).max(100).optional(),
+  maxAttempts: z.number().int().min(1).max(MAX_FETCH_ATTEMPTS).optional(),
+  maxRedirectHops: z.number().int().min(0).max(MAX_REDIRECTS).optional(),
+  sitemapMode: z.enum(SITEMAP_MODES).optional(),
+  includePatterns: urlPatternsSchema,
+  excludePatterns: urlPatternsSchema,
+  maxDepth: z.number().int().min(0).nullable().optional(),
+  maxQueryParams: z.number().int().min(0).nullable().optional(),
+  urlNormalization: urlNormalizationSchema.optional(),
+  scope: z.enum(CRAWL_SCOPES).optional(),
+  allowedHosts: z.array(z.string().trim().toLowerCase().regex(HOSTNAME_REGEX, "Invalid host name")).optional(),
+  customHeaders: z.record(z.string().regex(HEADER_NAME_REGEX, "Invalid header name"), z.string()).optional(),
+  cookies: z.array(crawlCookieSchema).optional(),
+  basicAuth: basicAuthSchema.nullable().optional(),
+  loginFlow: loginFlowSchema.nullable().optional(),
+  deviceProfile: z.enum(DEVICE_PROFILE_NAMES).optional(),
+  compareProfile: z.enum(DEVICE_PROFILE_NAMES).nullable().optional(),
+}).pick({
+  targetUrl: true,
+  maxPages: true,
+  timeout: true,
+  includeCssBackgrounds: true,
+  lazyLoadAttributes: true,
+  probeImages: true,
+  concurrency: true,
+  respectRobotsTxt: true,
+  requestsPerSecond: true,
+  honorRetryAfter: true,
+  maxAttempts: true,
+  maxRedirectHops: true,
+  sitemapMode: true,
+  renderJavaScript: true,
+  autoScroll: true,
+  includePatterns: true,
+  excludePatterns: true,
+  maxDepth: true,
+  maxQueryParams: true,
+  urlNormalization: true,
+  scope: true,
+  allowedHosts: true,
+  customHeaders: true,
+  cookies: true,
+  basicAuth: true,
+  loginFlow: true,
+  deviceProfile: true,
+  compareProfile: true,
+}).refine((job) => !job.compareProfile || job.compareProfile !== (job.deviceProfile ?? "desktop"), {
+  message: "Compare against a different device profile",
+  path: ["compareProfile"],
+});
+
+export const insertCrawledImageSchema = createInsertSchema(crawledImages, {
+  source: z.enum(IMAGE_SOURCES).optional(),
+  discovery: z.enum(IMAGE_DISCOVERY_METHODS).optional(),
+  deviceProfile: z.enum(DEVICE_PROFILE_NAMES).optional(),
+  redirectChain: z.array(z.string()).nullable().optional(),
+  sources: z.array(imageSourceSchema).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCrawledPageSchema = createInsertSchema(crawledPages, {
+  outcome: z.enum(PAGE_OUTCOMES),
+  redirectChain: z.array(z.string()).optional(),
+  attempts: z.array(z.custom<PageAttempt>()).optional(),
+}).omit({
+  id: true,
+  fetchedAt: true,
+});
+
+export const insertSitemapImageSchema = createInsertSchema(sitemapImages).omit({
+  id: true,
+});
+
+export const insertImagePayloadSchema = createInsertSchema(imagePayloads).omit({
+  createdAt: true,
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type InsertCrawlJob = z.infer<typeof insertCrawlJobSchema>;
+export type CrawlJob = typeof crawlJobs.$inferSelect;
+export type InsertCrawledImage = z.infer<typeof insertCrawledImageSchema>;
+export type CrawledImage = typeof crawledImages.$inferSelect;
+export type InsertImagePayload = z.infer<typeof insertImagePayloadSchema>;
+export type ImagePayload = typeof imagePayloads.$inferSelect;
+export type FrontierUrl = typeof crawlFrontier.$inferSelect;
+export type InsertCrawledPage = z.infer<typeof insertCrawledPageSchema>;
+export type CrawledPage = typeof crawledPages.$inferSelect;
+export type InsertSitemapImage = z.infer<typeof insertSitemapImageSchema>;
+export type SitemapImage = typeof sitemapImages.$inferSelect;
+
+// A broken image from the probe phase with every page that references it
+export interface BrokenImage {
+  imageUrl: string;
+  finalUrl: string | null;
+  httpStatus: number | null;
+  reason: string;
+  references: Array<{
+    imageId: string;
+    pageUrl: string;
+    imgTagHtml: string | null;
+  }>;
+}
+
+export interface BrokenImageReport {
+  jobId: string;
+  // False when the job ran without the probe phase, so nothing could be checked
+  probed: boolean;
+  brokenImages: BrokenImage[];
+}
+
+// Sitemap-declared images for one page set against what the crawl found there
+export interface SitemapImagePage {
+  pageUrl: string;
+  matched: string[];
+  // In the sitemap but not found on the page
+  missingFromPage: string[];
+  // Found on the page but not in the sitemap
+  missingFromSitemap: string[];
+}
+
+export interface SitemapImageReport {
+  jobId: string;
+  pages: SitemapImagePage[];
+}
+
+// Where a crawl's images are served from, one entry per host
+export interface ImageHost {
+  host: string;
+  thirdParty: boolean;
+  imageCount: number;
+  pageCount: number;
+}
+
+export interface ImageHostReport {
+  jobId: string;
+  hosts: ImageHost[];
+}
+
+// Images one page served to each device of a compare crawl
+export interface DeviceImageDiffPage {
+  pageUrl: string;
+  sharedCount: number;
+  primaryOnly: string[];
+  compareOnly: string[];
+}
+
+// A page the compare device couldn't fetch, so there's nothing to diff it against
+export interface DeviceComparisonFailure {
+  pageUrl: string;
+  error: string;
+}
+
+export interface DeviceImageDiffReport {
+  jobId: string;
+  primaryProfile: DeviceProfileName;
+  // Null when the job didn't compare devices; pages and failures are empty then
+  compareProfile: DeviceProfileName | null;
+  pages: DeviceImageDiffPage[];
+  failures: DeviceComparisonFailure[];
+}
+
+// A page reached through too many redirects, or never reached because its redirects loop
+export interface RedirectChain {
+  url: string;
+  finalUrl: string | null;
+  // URLs redirected from, in order, starting with url
+  hops: string[];
+  loop: boolean;
+  outcome: PageOutcome;
+}
+
+export interface RedirectChainReport {
+  jobId: string;
+  maxRedirectHops: number;
+  chains: RedirectChain[];
+}
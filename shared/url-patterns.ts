@@ -0,0 +1,65 @@
+// Include/exclude rules match a URL's path plus query string. Patterns are
+// globs ("/blog/**", "/tag/*", "page=") unless prefixed with "re:", which
+// makes the rest a regular expression.
+const REGEX_PREFIX = "re:";
+
+export interface UrlScopeRules {
+  includePatterns: string[];
+  excludePatterns: string[];
+  maxQueryParams: number | null;
+}
+
+/**
+ * In globs "**" matches anything, "*" anything but "/", and every other
+ * character (including "?") is literal. A glob starting with "/" must match
+ * the whole path and query; any other glob may match anywhere in it.
+ */
+export function compileUrlPattern(pattern: string): RegExp {
+  if (pattern.startsWith(REGEX_PREFIX)) {
+    return new RegExp(pattern.slice(REGEX_PREFIX.length));
+  }
+
+  const body = pattern
+    .split("**")
+    .map((part) =>
+      part
+        .split("*")
+        .map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[^/]*"),
+    )
+    .join(".*");
+  return pattern.startsWith("/") ? new RegExp(`^${body}$`) : new RegExp(body);
+}
+
+export function isValidUrlPattern(pattern: string): boolean {
+  try {
+    compileUrlPattern(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Returns a predicate telling whether a URL is inside the crawl's scope
+export function createUrlFilter(rules: UrlScopeRules): (url: string) => boolean {
+  const includes = rules.includePatterns.map(compileUrlPattern);
+  const excludes = rules.excludePatterns.map(compileUrlPattern);
+
+  return (url: string) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+
+    const target = parsed.pathname + parsed.search;
+    if (includes.length > 0 && !includes.some((regex) => regex.test(target))) return false;
+    if (excludes.some((regex) => regex.test(target))) return false;
+
+    if (rules.maxQueryParams !== null && Array.from(parsed.searchParams.keys()).length > rules.maxQueryParams) {
+      return false;
+    }
+    return true;
+  };
+}